@@ -0,0 +1,113 @@
+import {
+  execute,
+  GraphQLError,
+  parse,
+  specifiedRules,
+  validate,
+  type DocumentNode,
+  type ExecutionResult,
+} from "graphql"
+import { z } from "zod"
+import { jsonResponse } from "@/lib/api"
+import { complexityLimitRule, depthLimitRule } from "@/lib/graphql-limits"
+import { graphqlSchema } from "@/lib/graphql-schema"
+
+/**
+ * GRAPHQL API - /api/graphql
+ *
+ * Accepts the standard GraphQL-over-HTTP request: a JSON POST body of
+ * `{ query, variables, operationName }`, or the same fields as GET query
+ * parameters (variables JSON-encoded). GET responses get the same ETag and
+ * Cache-Control headers as the REST API; POST responses are not cached.
+ *
+ * Errors follow the GraphQL spec (`{ errors: [{ message }] }`) rather than
+ * the REST error shape, since that is what GraphQL clients expect.
+ */
+
+const requestSchema = z.object({
+  query: z.string({ required_error: "query is required" }),
+  variables: z.record(z.unknown()).nullish(),
+  operationName: z.string().nullish(),
+})
+
+type GraphQLRequest = z.infer<typeof requestSchema>
+
+function errorResult(status: number, ...messages: string[]): Response {
+  return Response.json(
+    { errors: messages.map((message) => ({ message })) },
+    { status, headers: { "Cache-Control": "no-store" } }
+  )
+}
+
+async function run(
+  request: GraphQLRequest
+): Promise<ExecutionResult | Response> {
+  let document: DocumentNode
+  try {
+    document = parse(request.query)
+  } catch (error) {
+    return errorResult(
+      400,
+      error instanceof GraphQLError ? error.message : "Invalid query"
+    )
+  }
+
+  const variables = request.variables ?? {}
+  const validationErrors = validate(graphqlSchema, document, [
+    ...specifiedRules,
+    depthLimitRule(),
+    complexityLimitRule(variables),
+  ])
+  if (validationErrors.length > 0) {
+    return errorResult(400, ...validationErrors.map((error) => error.message))
+  }
+
+  return execute({
+    schema: graphqlSchema,
+    document,
+    variableValues: variables,
+    operationName: request.operationName,
+  })
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+
+  let variables: unknown
+  try {
+    variables = JSON.parse(searchParams.get("variables") ?? "null")
+  } catch {
+    return errorResult(400, "variables must be valid JSON")
+  }
+
+  const parsed = requestSchema.safeParse({
+    query: searchParams.get("query") ?? undefined,
+    variables,
+    operationName: searchParams.get("operationName"),
+  })
+  if (!parsed.success) {
+    return errorResult(400, ...parsed.error.issues.map((i) => i.message))
+  }
+
+  const result = await run(parsed.data)
+  return result instanceof Response ? result : jsonResponse(request, result)
+}
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResult(400, "Request body must be JSON")
+  }
+
+  const parsed = requestSchema.safeParse(body)
+  if (!parsed.success) {
+    return errorResult(400, ...parsed.error.issues.map((i) => i.message))
+  }
+
+  const result = await run(parsed.data)
+  return result instanceof Response
+    ? result
+    : Response.json(result, { headers: { "Cache-Control": "no-store" } })
+}
@@ -0,0 +1,32 @@
+import { getPlayerRepository } from "@/data/repository"
+import { errorResponse, jsonResponse } from "@/lib/api"
+import { absoluteUrl } from "@/lib/site"
+import { getAdvancedStats, getPlayerRatios } from "@/lib/stats"
+
+/**
+ * PLAYER API - GET /api/players/[slug]
+ *
+ * The full player record, season lines included, plus the per-appearance
+ * ratios and the minutes-based stats shown on the profile page. Each
+ * advanced stat carries the minutes behind it and a small-sample flag.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params
+  const player = await getPlayerRepository().getBySlug(slug)
+
+  if (!player) {
+    return errorResponse(404, "not_found", `No player with slug "${slug}"`)
+  }
+
+  return jsonResponse(request, {
+    data: {
+      ...player,
+      ratios: getPlayerRatios(player),
+      advancedStats: getAdvancedStats(player),
+      url: absoluteUrl(`/players/${player.slug}`),
+    },
+  })
+}
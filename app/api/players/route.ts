@@ -0,0 +1,174 @@
+import { z } from "zod"
+import type { Player } from "@/data/players"
+import { getPositionBySlug } from "@/data/positions"
+import { getNationBySlug } from "@/data/nations"
+import { getTeamBySlug } from "@/data/teams"
+import { getPlayerRepository, type PlayerFilter } from "@/data/repository"
+import { positionRoleValues } from "@/data/schema"
+import {
+  decodeCursor,
+  encodeCursor,
+  errorResponse,
+  invalidRequestResponse,
+  jsonResponse,
+} from "@/lib/api"
+import { absoluteUrl } from "@/lib/site"
+import { goalContributionsPerAppearance, goalsPerAppearance } from "@/lib/stats"
+
+/**
+ * PLAYERS API - GET /api/players
+ *
+ * Read-only list of players for other tools.
+ *
+ * Query parameters (all optional):
+ * - team: team slug or exact name ("real-madrid", "Real Madrid")
+ * - nationality: nation slug or exact name ("brazil", "Brazil")
+ * - position: role ("winger") or position page slug ("forwards", "wingers")
+ * - sort: one of the keys in `sortFields` (default "goals")
+ * - order: "asc" or "desc" (default "desc", "asc" for name)
+ * - limit: page size, 1-100 (default 20)
+ * - cursor: `nextCursor` from the previous page
+ *
+ * Pagination is keyset-based: the cursor records the sort value and slug of
+ * the last player returned, so pages stay stable if players are added.
+ */
+
+const sortFields = {
+  name: (player: Player) => player.name,
+  age: (player: Player) => player.age,
+  goals: (player: Player) => player.goals,
+  assists: (player: Player) => player.assists,
+  appearances: (player: Player) => player.appearances,
+  minutes: (player: Player) => player.minutes,
+  goalsPerAppearance,
+  goalContributionsPerAppearance,
+  updatedAt: (player: Player) => player.updatedAt,
+} satisfies Record<string, (player: Player) => string | number>
+
+type SortField = keyof typeof sortFields
+
+const querySchema = z.object({
+  team: z.string().optional(),
+  nationality: z.string().optional(),
+  position: z.string().optional(),
+  sort: z
+    .enum(Object.keys(sortFields) as [SortField, ...SortField[]])
+    .default("goals"),
+  order: z.enum(["asc", "desc"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+})
+
+const cursorSchema = z.object({
+  sort: z.string(),
+  order: z.enum(["asc", "desc"]),
+  value: z.union([z.string(), z.number()]),
+  slug: z.string(),
+})
+
+type Cursor = z.infer<typeof cursorSchema>
+
+function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === "number" && typeof b === "number") return a - b
+  return String(a).localeCompare(String(b))
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const parsed = querySchema.safeParse(Object.fromEntries(searchParams))
+
+  if (!parsed.success) {
+    return invalidRequestResponse(parsed.error)
+  }
+
+  const query = parsed.data
+  const order = query.order ?? (query.sort === "name" ? "asc" : "desc")
+  const filter: PlayerFilter = {}
+  let roles: readonly string[] | undefined
+
+  // Lookups accept both the URL slug used on the site and the display name
+  if (query.team !== undefined) {
+    filter.team = getTeamBySlug(query.team)?.name ?? query.team
+  }
+  if (query.nationality !== undefined) {
+    filter.nationality =
+      (await getNationBySlug(query.nationality))?.name ?? query.nationality
+  }
+  if (query.position !== undefined) {
+    roles = (positionRoleValues as readonly string[]).includes(query.position)
+      ? [query.position]
+      : getPositionBySlug(query.position)?.roles
+
+    if (!roles) {
+      return errorResponse(
+        400,
+        "invalid_request",
+        `Unknown position "${query.position}"`,
+        [`position: expected one of ${positionRoleValues.join(", ")}`]
+      )
+    }
+  }
+
+  let cursor: Cursor | undefined
+  if (query.cursor !== undefined) {
+    const decoded = cursorSchema.safeParse(decodeCursor(query.cursor))
+
+    if (
+      !decoded.success ||
+      decoded.data.sort !== query.sort ||
+      decoded.data.order !== order
+    ) {
+      return errorResponse(
+        400,
+        "invalid_request",
+        "Invalid cursor; request the first page again with the same sort and order"
+      )
+    }
+    cursor = decoded.data
+  }
+
+  const valueOf = sortFields[query.sort]
+  const direction = order === "asc" ? 1 : -1
+  // Ties on the sort value are broken by slug so the order is total
+  const compare = (
+    player: Player,
+    value: string | number,
+    slug: string
+  ): number =>
+    direction * compareValues(valueOf(player), value) ||
+    player.slug.localeCompare(slug)
+
+  const matching = (await getPlayerRepository().filter(filter))
+    .filter((player) => !roles || roles.includes(player.position))
+    .sort((a, b) => compare(a, valueOf(b), b.slug))
+
+  const remaining = cursor
+    ? matching.filter(
+        (player) => compare(player, cursor.value, cursor.slug) > 0
+      )
+    : matching
+  const page = remaining.slice(0, query.limit)
+  const last = page.at(-1)
+  const hasMore = remaining.length > page.length
+
+  return jsonResponse(request, {
+    data: page.map(({ seasons, ...player }) => ({
+      ...player,
+      url: absoluteUrl(`/players/${player.slug}`),
+    })),
+    pagination: {
+      limit: query.limit,
+      total: matching.length,
+      hasMore,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({
+              sort: query.sort,
+              order,
+              value: valueOf(last),
+              slug: last.slug,
+            } satisfies Cursor)
+          : null,
+    },
+  })
+}
@@ -0,0 +1,48 @@
+import { z } from "zod"
+import { invalidRequestResponse, jsonResponse } from "@/lib/api"
+import {
+  getSearchIndex,
+  searchPlayers,
+  suggestQuery,
+  toPlayerSearchEntry,
+} from "@/lib/search"
+
+/**
+ * PLAYER SEARCH API - GET /api/search
+ *
+ * Backs the Cmd+K palette in the site header, which asks for matches as the
+ * user types instead of every page shipping the whole roster.
+ *
+ * Query parameters:
+ * - q: free-text query over names, teams, nationalities and positions
+ * - limit: number of results, 1-20 (default 8)
+ *
+ * Results come from the same index and ranking as /search. Terms match whole
+ * words or prefixes ("haal"), and a term that matches nothing is swapped for
+ * its "did you mean" correction, so a misspelled name ("ronaldp") still finds
+ * the player even alongside correctly spelled terms.
+ */
+
+const querySchema = z.object({
+  q: z.string().trim().default(""),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+})
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const parsed = querySchema.safeParse(Object.fromEntries(searchParams))
+
+  if (!parsed.success) {
+    return invalidRequestResponse(parsed.error)
+  }
+
+  const { q, limit } = parsed.data
+  const index = await getSearchIndex()
+  const results = q ? searchPlayers(index, suggestQuery(index, q) ?? q) : []
+
+  return jsonResponse(request, {
+    data: results
+      .slice(0, limit)
+      .map((result) => toPlayerSearchEntry(result.player)),
+  })
+}
@@ -0,0 +1,301 @@
+import type { Metadata } from "next"
+import { notFound, permanentRedirect } from "next/navigation"
+import Image from "next/image"
+import Link from "next/link"
+import type { Player } from "@/data/players"
+import {
+  getComparison,
+  getComparisonSlug,
+  getFeaturedComparisonSlugs,
+} from "@/data/comparisons"
+import { getPlayerRepository } from "@/data/repository"
+import { getPositionLabel } from "@/data/positions"
+import {
+  assistsPerAppearance,
+  goalContributionsPerAppearance,
+  goalsPerAppearance,
+} from "@/lib/stats"
+import { PlayerRadarChart } from "@/components/player-radar-chart"
+import { absoluteUrl, siteConfig } from "@/lib/site"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+
+/**
+ * HEAD-TO-HEAD COMPARISON PAGES
+ *
+ * URL format: /compare/[a]-vs-[b] (e.g., /compare/cristiano-ronaldo-vs-lionel-messi)
+ *
+ * "X vs Y" is one of the highest-volume query shapes in football search.
+ * Slugs are ordered alphabetically; the reversed URL permanently redirects
+ * to the canonical one so each pairing has a single indexable page.
+ */
+
+interface ComparePageProps {
+  params: Promise<{ pair: string }>
+}
+
+interface ComparisonRow {
+  label: string
+  value: (player: Player) => number
+  decimals: number
+}
+
+const comparisonRows: ComparisonRow[] = [
+  { label: "Goals", value: (player) => player.goals, decimals: 0 },
+  { label: "Assists", value: (player) => player.assists, decimals: 0 },
+  {
+    label: "Appearances",
+    value: (player) => player.appearances,
+    decimals: 0,
+  },
+  { label: "Goals per App", value: goalsPerAppearance, decimals: 2 },
+  { label: "Assists per App", value: assistsPerAppearance, decimals: 2 },
+  { label: "G+A per App", value: goalContributionsPerAppearance, decimals: 2 },
+]
+
+/**
+ * generateMetadata - Dynamic SEO Meta Tags for each pairing.
+ */
+export async function generateMetadata({
+  params,
+}: ComparePageProps): Promise<Metadata> {
+  const { pair } = await params
+  const comparison = await getComparison(pair)
+
+  if (!comparison) {
+    return {
+      title: "Comparison Not Found",
+      description: "The requested player comparison could not be found.",
+    }
+  }
+
+  const [first, second] = comparison.players
+  const canonicalSlug = getComparisonSlug(first.slug, second.slug)
+
+  return {
+    title: `${first.name} vs ${second.name} - Stats Comparison`,
+    description: `${first.name} vs ${second.name} head-to-head: ${first.goals} vs ${second.goals} goals, ${first.assists} vs ${second.assists} assists, ${first.appearances} vs ${second.appearances} appearances. Compare career stats and per-game ratios.`,
+    keywords: [
+      `${first.name} vs ${second.name}`,
+      `${second.name} vs ${first.name}`,
+      `${first.name} ${second.name} stats comparison`,
+      "football player comparison",
+    ],
+    alternates: {
+      canonical: `/compare/${canonicalSlug}`,
+    },
+    openGraph: {
+      title: `${first.name} vs ${second.name} - Stats Comparison`,
+      description: `Head-to-head career stats for ${first.name} and ${second.name}.`,
+      type: "website",
+      url: `/compare/${canonicalSlug}`,
+      locale: siteConfig.ogLocale,
+    },
+  }
+}
+
+/**
+ * Generate static params for the featured pairings only; every other pair is
+ * rendered on demand the first time it is requested.
+ */
+export async function generateStaticParams() {
+  const players = await getPlayerRepository().list()
+  return getFeaturedComparisonSlugs(players).map((pair) => ({ pair }))
+}
+
+/**
+ * Comparison Page Component
+ */
+export default async function ComparePage({ params }: ComparePageProps) {
+  const { pair } = await params
+  const comparison = await getComparison(pair)
+
+  if (!comparison) {
+    notFound()
+  }
+
+  const [first, second] = comparison.players
+  const canonicalSlug = getComparisonSlug(first.slug, second.slug)
+
+  // One URL per pairing: send the reversed order to the canonical page
+  if (pair !== canonicalSlug) {
+    permanentRedirect(`/compare/${canonicalSlug}`)
+  }
+
+  /**
+   * JSON-LD STRUCTURED DATA - WebPage about two Person entities
+   */
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@type": "WebPage",
+    name: `${first.name} vs ${second.name}`,
+    url: absoluteUrl(`/compare/${canonicalSlug}`),
+    about: [first, second].map((player) => ({
+      "@type": "Person",
+      name: player.name,
+      url: absoluteUrl(`/players/${player.slug}`),
+    })),
+  }
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        {/* JSON-LD structured data embedded in the page head */}
+        <script
+          type="application/ld+json"
+          // biome-ignore lint: JSON-LD needs dangerouslySetInnerHTML
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+        />
+
+        {/* Breadcrumb Navigation - improves UX and SEO */}
+        <nav
+          aria-label="Breadcrumb"
+          className="border-b border-border bg-muted/30"
+        >
+          <div className="mx-auto max-w-6xl px-4 py-3">
+            <ol className="flex items-center gap-2 text-sm text-muted-foreground">
+              <li>
+                <Link
+                  href="/"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Home
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              <li>
+                <span className="font-medium text-foreground">
+                  {first.name} vs {second.name}
+                </span>
+              </li>
+            </ol>
+          </div>
+        </nav>
+
+        {/* Head-to-head hero */}
+        <section className="py-10 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h1 className="text-balance text-center text-3xl font-bold tracking-tight text-foreground md:text-4xl lg:text-5xl">
+              {first.name} vs {second.name}
+            </h1>
+            <div className="mt-8 grid grid-cols-2 gap-6 md:gap-12">
+              {[first, second].map((player) => (
+                <Link
+                  key={player.slug}
+                  href={`/players/${player.slug}`}
+                  className="group flex flex-col items-center gap-3 text-center"
+                >
+                  <div className="relative h-32 w-32 overflow-hidden rounded-full border border-border bg-muted md:h-40 md:w-40">
+                    <Image
+                      src={player.image || "/placeholder.svg"}
+                      alt={`${player.name} - ${player.team}`}
+                      fill
+                      className="object-cover"
+                      sizes="160px"
+                      priority
+                    />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-foreground transition-colors group-hover:text-primary">
+                      {player.name}
+                    </h2>
+                    <p className="text-sm text-muted-foreground">
+                      {getPositionLabel(player.position)} &middot; {player.team}
+                    </p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </div>
+        </section>
+
+        {/* Side-by-side stats - the better value on each row is highlighted */}
+        <section className="border-t border-border py-12 md:py-16">
+          <div className="mx-auto grid max-w-6xl gap-10 px-4 lg:grid-cols-2">
+            <div className="overflow-hidden rounded-lg border border-border bg-card">
+              <table className="w-full text-sm">
+                <caption className="sr-only">
+                  {first.name} vs {second.name} career stats
+                </caption>
+                <thead>
+                  <tr className="border-b border-border bg-muted/30">
+                    <th className="px-4 py-3 text-left font-semibold text-foreground">
+                      {first.name}
+                    </th>
+                    <th className="px-4 py-3 text-center font-medium text-muted-foreground">
+                      Stat
+                    </th>
+                    <th className="px-4 py-3 text-right font-semibold text-foreground">
+                      {second.name}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparisonRows.map((row) => {
+                    const firstValue = row.value(first)
+                    const secondValue = row.value(second)
+
+                    return (
+                      <tr
+                        key={row.label}
+                        className="border-b border-border last:border-0"
+                      >
+                        <td
+                          className={`px-4 py-3 text-left text-lg ${firstValue > secondValue ? "font-bold text-primary" : "text-foreground"}`}
+                        >
+                          {firstValue.toFixed(row.decimals)}
+                        </td>
+                        <th
+                          scope="row"
+                          className="px-4 py-3 text-center text-xs font-medium uppercase tracking-wider text-muted-foreground"
+                        >
+                          {row.label}
+                        </th>
+                        <td
+                          className={`px-4 py-3 text-right text-lg ${secondValue > firstValue ? "font-bold text-primary" : "text-foreground"}`}
+                        >
+                          {secondValue.toFixed(row.decimals)}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="rounded-lg border border-border bg-card p-4">
+              <h2 className="mb-2 text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                Profile Overlay
+              </h2>
+              <PlayerRadarChart
+                firstName={first.name}
+                secondName={second.name}
+                metrics={comparisonRows.map((row) => ({
+                  label: row.label,
+                  first: row.value(first),
+                  second: row.value(second),
+                  decimals: row.decimals,
+                }))}
+              />
+            </div>
+          </div>
+        </section>
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
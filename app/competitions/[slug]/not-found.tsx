@@ -0,0 +1,39 @@
+import Link from "next/link"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+
+export default function CompetitionNotFound() {
+  return (
+    <>
+      <SiteHeader />
+      <main className="flex min-h-[60vh] flex-col items-center justify-center px-4 text-center">
+        <h1 className="text-4xl font-bold tracking-tight text-foreground">
+          Competition Not Found
+        </h1>
+        <p className="mt-3 text-muted-foreground">
+          The competition you're looking for doesn't exist or has been removed.
+        </p>
+        <Link
+          href="/"
+          className="mt-6 inline-flex items-center gap-2 rounded-lg bg-primary px-6 py-2.5 text-sm font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className="h-4 w-4"
+            aria-hidden="true"
+          >
+            <path d="m15 18-6-6 6-6" />
+          </svg>
+          Back to Home
+        </Link>
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
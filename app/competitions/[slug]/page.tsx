@@ -0,0 +1,318 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import Link from "next/link"
+import {
+  getAllCompetitionSlugs,
+  getCompetitionBySlug,
+  getCompetitionLeaders,
+  getCompetitionTeams,
+  getLatestCompetitionSeason,
+  type CompetitionPlayerTotals,
+} from "@/data/competitions"
+import { absoluteUrl, siteConfig } from "@/lib/site"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+/**
+ * DYNAMIC COMPETITION PAGES - League & Cup Hubs
+ *
+ * URL format: /competitions/[slug] (e.g., /competitions/premier-league)
+ *
+ * Competition pages sit above team pages in the site hierarchy. They target
+ * competition-level queries ("Champions League top scorers") and link down to
+ * every participating club and to the competition's leading players.
+ */
+
+interface CompetitionPageProps {
+  params: Promise<{ slug: string }>
+}
+
+/** How many players each leader table lists. */
+const LEADER_LIMIT = 10
+
+/**
+ * generateMetadata - Dynamic SEO Meta Tags for each competition hub.
+ */
+export async function generateMetadata({
+  params,
+}: CompetitionPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const competition = getCompetitionBySlug(slug)
+
+  if (!competition) {
+    return {
+      title: "Competition Not Found",
+      description: "The requested competition could not be found.",
+    }
+  }
+
+  return {
+    title: `${competition.name} Top Scorers, Assists & Teams`,
+    description: `${competition.name} player stats: the top scorers and assist leaders in our database, plus every participating club from ${competition.area}${competition.type === "cup" ? " and beyond" : ""}.`,
+    keywords: [
+      `${competition.name} top scorers`,
+      `${competition.name} assists`,
+      `${competition.name} teams`,
+      `${competition.name} player stats`,
+      "football player stats",
+    ],
+    alternates: {
+      canonical: `/competitions/${competition.slug}`,
+    },
+    openGraph: {
+      title: `${competition.name} Top Scorers, Assists & Teams`,
+      description: `Top scorers, assist leaders and clubs in the ${competition.name}.`,
+      type: "website",
+      url: `/competitions/${competition.slug}`,
+      locale: siteConfig.ogLocale,
+    },
+  }
+}
+
+/**
+ * Generate static params for all competition pages.
+ */
+export async function generateStaticParams() {
+  return getAllCompetitionSlugs().map((slug) => ({ slug }))
+}
+
+function LeaderTable({
+  title,
+  metric,
+  leaders,
+}: {
+  title: string
+  metric: "goals" | "assists"
+  leaders: CompetitionPlayerTotals[]
+}) {
+  return (
+    <div>
+      <h2 className="mb-6 text-2xl font-bold tracking-tight text-foreground">
+        {title}
+      </h2>
+      {leaders.length === 0 ? (
+        <p className="text-muted-foreground">No players to rank yet.</p>
+      ) : (
+        <div className="rounded-lg border border-border bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead className="text-right">Apps</TableHead>
+                <TableHead className="text-right capitalize">
+                  {metric}
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leaders.map((entry, index) => (
+                <TableRow key={entry.player.slug}>
+                  <TableCell className="text-muted-foreground">
+                    {index + 1}
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    <Link
+                      href={`/players/${entry.player.slug}`}
+                      className="text-foreground transition-colors hover:text-primary"
+                    >
+                      {entry.player.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {entry.appearances}
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">
+                    {entry[metric]}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Competition Hub Page Component
+ */
+export default async function CompetitionPage({
+  params,
+}: CompetitionPageProps) {
+  const { slug } = await params
+  const competition = getCompetitionBySlug(slug)
+
+  if (!competition) {
+    notFound()
+  }
+
+  const [clubs, topScorers, topAssisters, latestSeason] = await Promise.all([
+    getCompetitionTeams(competition),
+    getCompetitionLeaders(competition, "goals", LEADER_LIMIT),
+    getCompetitionLeaders(competition, "assists", LEADER_LIMIT),
+    getLatestCompetitionSeason(competition),
+  ])
+  const url = absoluteUrl(`/competitions/${competition.slug}`)
+
+  /**
+   * JSON-LD STRUCTURED DATA - SportsOrganization + SportsEvent Schema
+   *
+   * The competition as an organization with its member clubs, and its latest
+   * season as an event organized by it, so Google can connect league → club
+   * → player across the hub pages.
+   */
+  const competitors = clubs.map(({ name, team }) => ({
+    "@type": "SportsTeam",
+    name,
+    ...(team && { url: absoluteUrl(`/teams/${team.slug}`) }),
+  }))
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@graph": [
+      {
+        "@type": "SportsOrganization",
+        "@id": `${url}#organization`,
+        name: competition.name,
+        sport: "Soccer",
+        url,
+        areaServed: competition.area,
+        parentOrganization: {
+          "@type": "SportsOrganization",
+          name: competition.organizer,
+        },
+        member: competitors,
+      },
+      ...(latestSeason
+        ? [
+            {
+              "@type": "SportsEvent",
+              name: `${competition.name} ${latestSeason}`,
+              sport: "Soccer",
+              url,
+              organizer: { "@id": `${url}#organization` },
+              competitor: competitors,
+            },
+          ]
+        : []),
+    ],
+  }
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        {/* JSON-LD structured data embedded in the page head */}
+        <script
+          type="application/ld+json"
+          // biome-ignore lint: JSON-LD needs dangerouslySetInnerHTML
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+        />
+
+        {/* Breadcrumb Navigation - improves UX and SEO */}
+        <nav
+          aria-label="Breadcrumb"
+          className="border-b border-border bg-muted/30"
+        >
+          <div className="mx-auto max-w-6xl px-4 py-3">
+            <ol className="flex items-center gap-2 text-sm text-muted-foreground">
+              <li>
+                <Link
+                  href="/"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Home
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              <li>
+                <span className="font-medium text-foreground">
+                  {competition.name}
+                </span>
+              </li>
+            </ol>
+          </div>
+        </nav>
+
+        {/* Competition Hero Section */}
+        <section className="py-10 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h1 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl lg:text-5xl">
+              {competition.name}
+            </h1>
+            <p className="mt-2 text-lg text-muted-foreground">
+              {competition.type === "league" ? "League" : "Cup"} &middot;{" "}
+              {competition.area} &middot; {competition.organizer}
+            </p>
+          </div>
+        </section>
+
+        {/* Participating Teams - clubs with a hub page link to it */}
+        <section className="border-t border-border py-12 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h2 className="mb-6 text-2xl font-bold tracking-tight text-foreground">
+              Teams
+            </h2>
+            <ul className="flex flex-wrap gap-2">
+              {clubs.map(({ name, team }) => (
+                <li key={name}>
+                  {team ? (
+                    <Link
+                      href={`/teams/${team.slug}`}
+                      className="inline-block rounded-md border border-border bg-card px-3 py-1 text-sm text-foreground transition-colors hover:border-primary/30 hover:text-primary"
+                    >
+                      {name}
+                    </Link>
+                  ) : (
+                    <span className="inline-block rounded-md border border-border px-3 py-1 text-sm text-muted-foreground">
+                      {name}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+
+        {/* Leaders - summed over every season line in the competition */}
+        <section className="border-t border-border py-12 md:py-16">
+          <div className="mx-auto grid max-w-6xl gap-10 px-4 lg:grid-cols-2">
+            <LeaderTable
+              title="Top Scorers"
+              metric="goals"
+              leaders={topScorers}
+            />
+            <LeaderTable
+              title="Top Assisters"
+              metric="assists"
+              leaders={topAssisters}
+            />
+          </div>
+        </section>
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
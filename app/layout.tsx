@@ -1,6 +1,8 @@
 import React from "react"
 import type { Metadata, Viewport } from "next"
 import { Inter, Space_Mono } from "next/font/google"
+import { isIndexable } from "@/lib/env"
+import { siteConfig } from "@/lib/site"
 
 import "./globals.css"
 
@@ -19,22 +21,35 @@ const _spaceMono = Space_Mono({
  * - Setting a consistent site name for brand recognition
  * - Providing fallback meta tags for pages without custom metadata
  * - Configuring robots directives for crawler behavior
+ * - Setting metadataBase so relative canonical and Open Graph URLs resolve
+ *   against the configured domain (see lib/site.ts)
+ *
+ * Robots directives depend on the deployment: only production is indexable,
+ * so preview deployments emit noindex (see lib/env.ts and app/robots.ts).
  */
 export const metadata: Metadata = {
+  metadataBase: new URL(siteConfig.url),
   title: {
-    default: "FootballStats - Football Player Stats & Performance Analysis",
-    template: "%s | FootballStats",
+    default: `${siteConfig.name} - Football Player Stats & Performance Analysis`,
+    template: `%s | ${siteConfig.name}`,
   },
-  description:
-    "Explore comprehensive football player statistics, profiles, and performance analysis for top soccer players worldwide.",
+  description: siteConfig.description,
   keywords: [
     "football player stats",
     "soccer player profile",
     "player performance analysis",
   ],
+  openGraph: {
+    siteName: siteConfig.name,
+    locale: siteConfig.ogLocale,
+  },
+  twitter: {
+    card: "summary_large_image",
+    site: siteConfig.social.twitter,
+  },
   robots: {
-    index: true,
-    follow: true,
+    index: isIndexable(),
+    follow: isIndexable(),
   },
 }
 
@@ -50,7 +65,7 @@ export default function RootLayout({
   children: React.ReactNode
 }>) {
   return (
-    <html lang="en">
+    <html lang={siteConfig.defaultLocale}>
       <body className="font-sans antialiased min-h-screen bg-background text-foreground">
         {children}
       </body>
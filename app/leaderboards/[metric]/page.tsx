@@ -0,0 +1,383 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import Link from "next/link"
+import {
+  formatLeaderboardValue,
+  getLeaderboardBySlug,
+  leaderboards,
+  rankLeaderboard,
+} from "@/data/leaderboards"
+import {
+  getAllPositions,
+  getPositionBySlug,
+  getPositionHref,
+  getPositionLabel,
+} from "@/data/positions"
+import { getAllNations, getNationBySlug, getNationHref } from "@/data/nations"
+import { getPlayerRepository } from "@/data/repository"
+import { getTeamByName } from "@/data/teams"
+import { absoluteUrl, siteConfig } from "@/lib/site"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+/**
+ * LEADERBOARD PAGES - Metric Rankings
+ *
+ * URL format: /leaderboards/[metric] (e.g., /leaderboards/goals)
+ *
+ * Targets superlative queries ("most goals in football", "youngest player to
+ * 100 goals"). Rankings can be narrowed with ?position= (a position page
+ * slug) and ?nationality= (a nation slug); filtered views point their
+ * canonical at the unfiltered board so they don't compete with it.
+ */
+
+interface LeaderboardPageProps {
+  params: Promise<{ metric: string }>
+  searchParams: Promise<{ position?: string; nationality?: string }>
+}
+
+/**
+ * generateMetadata - Dynamic SEO Meta Tags for each leaderboard.
+ */
+export async function generateMetadata({
+  params,
+}: LeaderboardPageProps): Promise<Metadata> {
+  const { metric } = await params
+  const leaderboard = getLeaderboardBySlug(metric)
+
+  if (!leaderboard) {
+    return {
+      title: "Leaderboard Not Found",
+      description: "The requested leaderboard could not be found.",
+    }
+  }
+
+  return {
+    title: `${leaderboard.title} - Football Player Leaderboard`,
+    description: `Football players ranked by ${leaderboard.label.toLowerCase()}. ${leaderboard.description}`,
+    keywords: [
+      `${leaderboard.title.toLowerCase()} football`,
+      `football ${leaderboard.label.toLowerCase()} leaderboard`,
+      "football player rankings",
+      "football player stats",
+    ],
+    alternates: {
+      canonical: `/leaderboards/${leaderboard.slug}`,
+    },
+    openGraph: {
+      title: `${leaderboard.title} - Football Player Leaderboard`,
+      description: leaderboard.description,
+      type: "website",
+      url: `/leaderboards/${leaderboard.slug}`,
+      locale: siteConfig.ogLocale,
+    },
+  }
+}
+
+/**
+ * Leaderboard Page Component
+ */
+export default async function LeaderboardPage({
+  params,
+  searchParams,
+}: LeaderboardPageProps) {
+  const { metric } = await params
+  const leaderboard = getLeaderboardBySlug(metric)
+
+  if (!leaderboard) {
+    notFound()
+  }
+
+  // Unknown filter values are ignored rather than emptying the board
+  const filters = await searchParams
+  const position = filters.position
+    ? getPositionBySlug(filters.position)
+    : undefined
+  const nation = filters.nationality
+    ? await getNationBySlug(filters.nationality)
+    : undefined
+  const nations = await getAllNations()
+
+  const players = (await getPlayerRepository().list()).filter(
+    (player) =>
+      (!position || position.roles.includes(player.position)) &&
+      (!nation || player.nationality === nation.name)
+  )
+  const { entries, belowThreshold } = rankLeaderboard(leaderboard, players)
+
+  // Keeps the active filters when switching between leaderboards
+  const filterQuery = new URLSearchParams({
+    ...(position && { position: position.slug }),
+    ...(nation && { nationality: nation.slug }),
+  }).toString()
+  const leaderboardHref = (slug: string) =>
+    `/leaderboards/${slug}${filterQuery ? `?${filterQuery}` : ""}`
+
+  /**
+   * JSON-LD STRUCTURED DATA - ItemList Schema
+   *
+   * Marks the ranking up as an ordered list of player pages, which makes it
+   * eligible for list-style rich results.
+   */
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@type": "ItemList",
+    name: leaderboard.title,
+    description: leaderboard.description,
+    itemListOrder:
+      leaderboard.order === "asc"
+        ? "https://schema.org/ItemListOrderAscending"
+        : "https://schema.org/ItemListOrderDescending",
+    numberOfItems: entries.length,
+    itemListElement: entries.map((entry, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      name: entry.player.name,
+      url: absoluteUrl(`/players/${entry.player.slug}`),
+    })),
+  }
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        {/* JSON-LD structured data embedded in the page head */}
+        <script
+          type="application/ld+json"
+          // biome-ignore lint: JSON-LD needs dangerouslySetInnerHTML
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+        />
+
+        {/* Breadcrumb Navigation - improves UX and SEO */}
+        <nav
+          aria-label="Breadcrumb"
+          className="border-b border-border bg-muted/30"
+        >
+          <div className="mx-auto max-w-6xl px-4 py-3">
+            <ol className="flex items-center gap-2 text-sm text-muted-foreground">
+              <li>
+                <Link
+                  href="/"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Home
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              <li>
+                <span className="font-medium text-foreground">
+                  {leaderboard.title}
+                </span>
+              </li>
+            </ol>
+          </div>
+        </nav>
+
+        {/* Leaderboard Hero Section */}
+        <section className="py-10 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h1 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl lg:text-5xl">
+              {leaderboard.title}
+              {position && ` - ${position.pluralLabel}`}
+              {nation && ` from ${nation.name}`}
+            </h1>
+            <p className="mt-2 text-lg text-muted-foreground">
+              {leaderboard.description}
+              {leaderboard.minAppearances > 0 &&
+                ` Minimum ${leaderboard.minAppearances} appearances.`}
+            </p>
+
+            {/* Sibling leaderboards (internal linking between metrics) */}
+            <ul className="mt-6 flex flex-wrap gap-2">
+              {leaderboards.map((other) => (
+                <li key={other.slug}>
+                  <Link
+                    href={leaderboardHref(other.slug)}
+                    aria-current={
+                      other.slug === leaderboard.slug ? "page" : undefined
+                    }
+                    className="inline-block rounded-md border border-border bg-card px-3 py-1 text-sm text-muted-foreground transition-colors hover:border-primary/30 hover:text-foreground aria-[current=page]:border-primary aria-[current=page]:text-foreground"
+                  >
+                    {other.title}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+
+            {/* Filters - a plain GET form, so it works without JavaScript */}
+            <form
+              action={`/leaderboards/${leaderboard.slug}`}
+              method="get"
+              className="mt-6 flex flex-wrap items-end gap-3"
+            >
+              <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                Position
+                <select
+                  name="position"
+                  defaultValue={position?.slug ?? ""}
+                  className="h-10 rounded-md border border-input bg-background px-3 text-sm text-foreground"
+                >
+                  <option value="">All positions</option>
+                  {getAllPositions().map((option) => (
+                    <option key={option.slug} value={option.slug}>
+                      {option.pluralLabel}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                Nationality
+                <select
+                  name="nationality"
+                  defaultValue={nation?.slug ?? ""}
+                  className="h-10 rounded-md border border-input bg-background px-3 text-sm text-foreground"
+                >
+                  <option value="">All nationalities</option>
+                  {nations.map((option) => (
+                    <option key={option.slug} value={option.slug}>
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="submit"
+                className="h-10 rounded-md bg-primary px-4 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+              >
+                Apply
+              </button>
+              {(position || nation) && (
+                <Link
+                  href={`/leaderboards/${leaderboard.slug}`}
+                  className="flex h-10 items-center text-sm font-medium text-primary hover:underline"
+                >
+                  Clear filters
+                </Link>
+              )}
+            </form>
+          </div>
+        </section>
+
+        {/* Ranking Table - every row links to a player page */}
+        <section className="border-t border-border py-12 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            {entries.length === 0 ? (
+              <p className="text-muted-foreground">
+                No players qualify for this leaderboard with these filters.
+              </p>
+            ) : (
+              <div className="rounded-lg border border-border bg-card">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">#</TableHead>
+                      <TableHead>Player</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Position</TableHead>
+                      <TableHead>Nationality</TableHead>
+                      <TableHead className="text-right">Apps</TableHead>
+                      <TableHead className="text-right">
+                        {leaderboard.label}
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map(({ player, value, rank }) => {
+                      const team = getTeamByName(player.team)
+                      const detail = leaderboard.detail?.(player)
+
+                      return (
+                        <TableRow key={player.slug}>
+                          <TableCell className="text-muted-foreground">
+                            {rank}
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            <Link
+                              href={`/players/${player.slug}`}
+                              className="text-foreground transition-colors hover:text-primary"
+                            >
+                              {player.name}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {team ? (
+                              <Link
+                                href={`/teams/${team.slug}`}
+                                className="transition-colors hover:text-foreground"
+                              >
+                                {player.team}
+                              </Link>
+                            ) : (
+                              player.team
+                            )}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            <Link
+                              href={getPositionHref(player.position)}
+                              className="transition-colors hover:text-foreground"
+                            >
+                              {getPositionLabel(player.position)}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            <Link
+                              href={getNationHref(player.nationality)}
+                              className="transition-colors hover:text-foreground"
+                            >
+                              {player.nationality}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            {player.appearances.toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {formatLeaderboardValue(leaderboard, value)}
+                            {detail && (
+                              <span className="ml-1 font-normal text-muted-foreground">
+                                ({detail})
+                              </span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {belowThreshold > 0 && (
+              <p className="mt-4 text-sm text-muted-foreground">
+                {belowThreshold}{" "}
+                {belowThreshold === 1 ? "player is" : "players are"} not ranked
+                for having fewer than {leaderboard.minAppearances} appearances.
+              </p>
+            )}
+          </div>
+        </section>
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
@@ -0,0 +1,211 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import Link from "next/link"
+import {
+  getAllNationSlugs,
+  getNationBySlug,
+  getNationPlayers,
+  getNationTotals,
+} from "@/data/nations"
+import { PlayerCard } from "@/components/player-card"
+import { absoluteUrl, siteConfig } from "@/lib/site"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+
+/**
+ * DYNAMIC NATION PAGES - Nationality Hubs
+ *
+ * URL format: /nations/[slug] (e.g., /nations/argentina)
+ *
+ * Targets country-level queries ("Argentina football players stats") and
+ * turns the nationality shown on every player card into a crawlable path.
+ */
+
+interface NationPageProps {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * generateMetadata - Dynamic SEO Meta Tags for each nation hub.
+ */
+export async function generateMetadata({
+  params,
+}: NationPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const nation = await getNationBySlug(slug)
+
+  if (!nation) {
+    return {
+      title: "Nation Not Found",
+      description: "The requested nation could not be found.",
+    }
+  }
+
+  const nationPlayers = await getNationPlayers(nation)
+  const totals = getNationTotals(nationPlayers)
+
+  return {
+    title: `${nation.name} Football Players & Stats`,
+    description: `Stats and profiles for ${nationPlayers.length} ${nation.name} football ${nationPlayers.length === 1 ? "player" : "players"}: ${totals.goals} goals, ${totals.assists} assists in ${totals.appearances} appearances combined.`,
+    keywords: [
+      `${nation.name} football players`,
+      `${nation.name} soccer players`,
+      `${nation.name} player stats`,
+      "football player stats",
+    ],
+    alternates: {
+      canonical: `/nations/${nation.slug}`,
+    },
+    openGraph: {
+      title: `${nation.name} Football Players & Stats`,
+      description: `Career stats for ${nation.name} football players.`,
+      type: "website",
+      url: `/nations/${nation.slug}`,
+      locale: siteConfig.ogLocale,
+    },
+  }
+}
+
+/**
+ * Generate static params for all nation pages.
+ */
+export async function generateStaticParams() {
+  return (await getAllNationSlugs()).map((slug) => ({ slug }))
+}
+
+/**
+ * Nation Hub Page Component
+ */
+export default async function NationPage({ params }: NationPageProps) {
+  const { slug } = await params
+  const nation = await getNationBySlug(slug)
+
+  if (!nation) {
+    notFound()
+  }
+
+  const nationPlayers = await getNationPlayers(nation)
+  const totals = getNationTotals(nationPlayers)
+
+  /**
+   * JSON-LD STRUCTURED DATA - Country Schema
+   *
+   * Identifies the page's subject as a country entity, matching the
+   * `nationality` Country node embedded on each player page.
+   */
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@type": "Country",
+    name: nation.name,
+    url: absoluteUrl(`/nations/${nation.slug}`),
+    description: `Football players from ${nation.name} and their career stats.`,
+  }
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        {/* JSON-LD structured data embedded in the page head */}
+        <script
+          type="application/ld+json"
+          // biome-ignore lint: JSON-LD needs dangerouslySetInnerHTML
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+        />
+
+        {/* Breadcrumb Navigation - improves UX and SEO */}
+        <nav
+          aria-label="Breadcrumb"
+          className="border-b border-border bg-muted/30"
+        >
+          <div className="mx-auto max-w-6xl px-4 py-3">
+            <ol className="flex items-center gap-2 text-sm text-muted-foreground">
+              <li>
+                <Link
+                  href="/"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Home
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              <li>
+                <span className="font-medium text-foreground">
+                  {nation.name}
+                </span>
+              </li>
+            </ol>
+          </div>
+        </nav>
+
+        {/* Nation Hero Section with aggregated stats */}
+        <section className="py-10 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h1 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl lg:text-5xl">
+              {nation.name} Football Players
+            </h1>
+            <p className="mt-2 text-lg text-muted-foreground">
+              Career stats for every {nation.name} player in our database.
+            </p>
+
+            <div className="mt-8 grid grid-cols-2 gap-4 sm:grid-cols-4">
+              <div className="flex flex-col gap-1 rounded-lg border border-border bg-card p-4">
+                <span className="text-3xl font-bold text-foreground">
+                  {nationPlayers.length}
+                </span>
+                <span className="text-sm text-muted-foreground">Players</span>
+              </div>
+              <div className="flex flex-col gap-1 rounded-lg border border-border bg-card p-4">
+                <span className="text-3xl font-bold text-foreground">
+                  {totals.goals.toLocaleString()}
+                </span>
+                <span className="text-sm text-muted-foreground">Goals</span>
+              </div>
+              <div className="flex flex-col gap-1 rounded-lg border border-border bg-card p-4">
+                <span className="text-3xl font-bold text-foreground">
+                  {totals.assists.toLocaleString()}
+                </span>
+                <span className="text-sm text-muted-foreground">Assists</span>
+              </div>
+              <div className="flex flex-col gap-1 rounded-lg border border-border bg-card p-4">
+                <span className="text-3xl font-bold text-foreground">
+                  {totals.appearances.toLocaleString()}
+                </span>
+                <span className="text-sm text-muted-foreground">
+                  Appearances
+                </span>
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {/* Player grid - each card links to a player page */}
+        <section className="border-t border-border bg-muted/30 py-12 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h2 className="mb-8 text-2xl font-bold tracking-tight text-foreground">
+              Players
+            </h2>
+            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+              {nationPlayers.map((player) => (
+                <PlayerCard key={player.slug} player={player} />
+              ))}
+            </div>
+          </div>
+        </section>
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
@@ -1,10 +1,30 @@
 import type { Metadata } from "next"
-import { players } from "@/data/players"
+import { Suspense } from "react"
+import { getPlayerRepository } from "@/data/repository"
+import { getPositionLabel, positionRoles } from "@/data/positions"
+import { getTeamByName, teams } from "@/data/teams"
+import { siteConfig } from "@/lib/site"
+import { goalContributionsPerAppearance } from "@/lib/stats"
+import { slugify } from "@/lib/utils"
 import { PlayerCard } from "@/components/player-card"
+import {
+  filterPlayerGridItems,
+  getPlayerGridCanonical,
+  parsePlayerGridParams,
+  PLAYER_GRID_SIZE,
+  type PlayerGridItem,
+  type PlayerGridParams,
+} from "@/lib/player-grid"
+import { PlayerGrid, type FilterOption } from "@/components/player-grid"
 import { SiteHeader } from "@/components/site-header"
 import { SiteFooter } from "@/components/site-footer"
+import Image from "next/image"
 import Link from "next/link"
 
+interface HomePageProps {
+  searchParams: Promise<PlayerGridParams>
+}
+
 /**
  * HOMEPAGE SEO METADATA
  *
@@ -14,26 +34,42 @@ import Link from "next/link"
  *
  * OpenGraph tags ensure rich previews when shared on social media,
  * which drives traffic and improves click-through rates from social platforms.
+ * Filtered grid views (/?position=winger) are canonical to themselves so
+ * each one can be indexed; see getPlayerGridCanonical.
  */
-export const metadata: Metadata = {
-  title: "FootballStats - Football Player Stats, Profiles & Performance Analysis",
-  description:
-    "Explore comprehensive football player statistics, profiles, and performance analysis. Get detailed stats on goals, assists, and more for top soccer players worldwide.",
-  keywords: [
-    "football player stats",
-    "soccer player profile",
-    "player performance analysis",
-    "football statistics",
-    "soccer player stats",
-  ],
-  openGraph: {
-    title: "FootballStats - Football Player Stats & Profiles",
+export async function generateMetadata({
+  searchParams,
+}: HomePageProps): Promise<Metadata> {
+  const canonical = getPlayerGridCanonical(
+    parsePlayerGridParams(await searchParams)
+  )
+
+  return {
+    title: {
+      absolute: `${siteConfig.name} - Football Player Stats, Profiles & Performance Analysis`,
+    },
     description:
-      "Explore comprehensive football player statistics, profiles, and performance analysis for top players worldwide.",
-    type: "website",
-    url: "https://footballstats.vercel.app",
-    siteName: "FootballStats",
-  },
+      "Explore comprehensive football player statistics, profiles, and performance analysis. Get detailed stats on goals, assists, and more for top soccer players worldwide.",
+    keywords: [
+      "football player stats",
+      "soccer player profile",
+      "player performance analysis",
+      "football statistics",
+      "soccer player stats",
+    ],
+    alternates: {
+      canonical,
+    },
+    openGraph: {
+      title: `${siteConfig.name} - Football Player Stats & Profiles`,
+      description:
+        "Explore comprehensive football player statistics, profiles, and performance analysis for top players worldwide.",
+      type: "website",
+      url: canonical,
+      locale: siteConfig.ogLocale,
+      siteName: siteConfig.name,
+    },
+  }
 }
 
 /**
@@ -46,13 +82,67 @@ export const metadata: Metadata = {
  * - Meta tags are embedded server-side for proper indexing
  *
  * PROGRAMMATIC SEO STRATEGY:
- * The homepage acts as a hub page that links to all individual player pages.
+ * The homepage acts as a hub page that links to the top player pages and on
+ * to /players, which links to every one.
  * This "hub and spoke" structure is a proven SEO architecture that:
  * 1. Helps crawlers discover all pages efficiently
  * 2. Concentrates topical authority on the main keyword cluster
  * 3. Distributes link equity to deeper pages
  */
-export default function HomePage() {
+export default async function HomePage({ searchParams }: HomePageProps) {
+  const repository = getPlayerRepository()
+  const [players, gridPage] = await Promise.all([
+    repository.list(),
+    repository.paginate({ page: 1, pageSize: PLAYER_GRID_SIZE, sort: "goals" }),
+  ])
+  const gridPlayers = gridPage.items
+  const gridState = parsePlayerGridParams(await searchParams)
+
+  // Filter values are the slugs used by the team, nation and position pages
+  const gridItems: PlayerGridItem[] = gridPlayers.map((player) => ({
+    slug: player.slug,
+    name: player.name,
+    teamSlug: getTeamByName(player.team)?.slug ?? slugify(player.team),
+    nationSlug: slugify(player.nationality),
+    position: positionRoles[player.position].slug,
+    goals: player.goals,
+    assists: player.assists,
+    appearances: player.appearances,
+    age: player.age,
+    goalContributionsPerAppearance: goalContributionsPerAppearance(player),
+  }))
+
+  // Only offer options that match at least one player
+  const toOptions = (entries: [string, string][]): FilterOption[] =>
+    Array.from(new Map(entries), ([value, label]) => ({ value, label })).sort(
+      (a, b) => a.label.localeCompare(b.label)
+    )
+  const positionOptions = toOptions(
+    gridPlayers.map((player) => [
+      positionRoles[player.position].slug,
+      getPositionLabel(player.position),
+    ])
+  )
+  const nationalityOptions = toOptions(
+    gridPlayers.map((player) => [
+      slugify(player.nationality),
+      player.nationality,
+    ])
+  )
+  const teamOptions = toOptions(
+    gridItems.map((item, index) => [item.teamSlug, gridPlayers[index].team])
+  )
+
+  // Filtered here too, so the server HTML of a filtered URL matches it
+  const visibleItems = filterPlayerGridItems(gridItems, gridState)
+
+  const cards = Object.fromEntries(
+    gridPlayers.map((player) => [
+      player.slug,
+      <PlayerCard key={player.slug} player={player} />,
+    ])
+  )
+
   return (
     <>
       <SiteHeader />
@@ -134,7 +224,9 @@ export default function HomePage() {
               </div>
               <div className="flex flex-col items-center gap-1 text-center">
                 <span className="text-3xl font-bold text-foreground md:text-4xl">
-                  {players.reduce((sum, p) => sum + p.goals, 0).toLocaleString()}
+                  {players
+                    .reduce((sum, p) => sum + p.goals, 0)
+                    .toLocaleString()}
                 </span>
                 <span className="text-sm text-muted-foreground">
                   Total Goals
@@ -179,11 +271,80 @@ export default function HomePage() {
 
             {/*
              * Player cards grid - each card links to a unique SEO-optimized page.
+             * Only the top PLAYER_GRID_SIZE scorers get a card; the link
+             * below leads on to the paginated index of everyone.
              * The grid uses responsive columns: 1 on mobile, 2 on tablet, 3 on desktop.
+             * Filters come from the query string; the fallback shows the
+             * same filtered cards the grid renders.
              */}
-            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-              {players.map((player) => (
-                <PlayerCard key={player.slug} player={player} />
+            <Suspense
+              fallback={
+                <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+                  {visibleItems.map((item) => (
+                    <div key={item.slug}>{cards[item.slug]}</div>
+                  ))}
+                </div>
+              }
+            >
+              <PlayerGrid
+                items={gridItems}
+                cards={cards}
+                positions={positionOptions}
+                nationalities={nationalityOptions}
+                teams={teamOptions}
+              />
+            </Suspense>
+
+            <div className="mt-10 text-center">
+              <Link
+                href="/players"
+                className="text-sm font-semibold text-primary hover:underline"
+              >
+                {`Browse all ${gridPage.total} players →`}
+              </Link>
+            </div>
+          </div>
+        </section>
+
+        {/*
+         * Club Hubs - extends the hub-and-spoke structure to teams.
+         * Each club page links on to its current and former players.
+         */}
+        <section id="teams" className="border-t border-border py-16 md:py-20">
+          <div className="mx-auto max-w-6xl px-4">
+            <div className="mb-10 text-center">
+              <h2 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl">
+                Browse by Club
+              </h2>
+              <p className="mt-3 text-pretty text-muted-foreground">
+                Squad stats and player profiles for every club in our database.
+              </p>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {teams.map((team) => (
+                <Link
+                  key={team.slug}
+                  href={`/teams/${team.slug}`}
+                  className="flex items-center gap-4 rounded-lg border border-border bg-card p-4 transition-all hover:border-primary/30 hover:shadow-md"
+                >
+                  <div className="relative h-12 w-12 flex-shrink-0 overflow-hidden rounded-md bg-muted">
+                    <Image
+                      src={team.crest || "/placeholder-logo.svg"}
+                      alt={`${team.name} crest`}
+                      fill
+                      className="object-contain p-1"
+                      sizes="48px"
+                    />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-card-foreground">
+                      {team.name}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                      {team.league} &middot; {team.country}
+                    </p>
+                  </div>
+                </Link>
               ))}
             </div>
           </div>
@@ -197,12 +358,13 @@ export default function HomePage() {
                 Your Source for Football Player Statistics
               </h2>
               <p className="mt-4 text-pretty leading-relaxed text-muted-foreground">
-                FootballStats provides comprehensive football player statistics
-                and performance analysis. Whether you're looking for soccer
-                player profiles, career stats, or performance data, our platform
-                covers the top players in world football. From goal-scoring
-                records to assist tallies, we offer detailed breakdowns of
-                player performance across all major leagues and competitions.
+                {siteConfig.name} provides comprehensive football player
+                statistics and performance analysis. Whether you're looking for
+                soccer player profiles, career stats, or performance data, our
+                platform covers the top players in world football. From
+                goal-scoring records to assist tallies, we offer detailed
+                breakdowns of player performance across all major leagues and
+                competitions.
               </p>
             </div>
           </div>
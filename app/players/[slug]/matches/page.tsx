@@ -0,0 +1,377 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import Link from "next/link"
+import {
+  formatMatchDate,
+  getPlayerMatchLog,
+  summarizeMatchLog,
+  type MatchResult,
+} from "@/data/matches"
+import { getPlayerRepository } from "@/data/repository"
+import { getTeamByName } from "@/data/teams"
+import { getSeasonStartYear } from "@/data/players"
+import { siteConfig } from "@/lib/site"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+/**
+ * PLAYER GAME LOG PAGES - Match-by-Match Stats
+ *
+ * URL format: /players/[slug]/matches (e.g., /players/lionel-messi/matches)
+ *
+ * Every logged appearance with the score, minutes, goals, assists and cards.
+ * Targets "[player name] match stats" and "[player name] last game" queries.
+ * The log can be narrowed with ?season= and ?competition=; filtered views
+ * point their canonical at the full log. Only players with logged matches
+ * get a page.
+ */
+
+interface PlayerMatchesPageProps {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{ season?: string; competition?: string }>
+}
+
+const resultStyles: Record<MatchResult, string> = {
+  W: "bg-primary text-primary-foreground",
+  D: "bg-muted text-muted-foreground",
+  L: "bg-destructive/15 text-destructive",
+}
+
+/**
+ * generateMetadata - Dynamic SEO Meta Tags for each game log.
+ */
+export async function generateMetadata({
+  params,
+}: PlayerMatchesPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const player = await getPlayerRepository().getBySlug(slug)
+  const log = getPlayerMatchLog(slug)
+
+  if (!player || log.length === 0) {
+    return {
+      title: "Game Log Not Found",
+      description: "The requested game log could not be found.",
+    }
+  }
+
+  return {
+    title: `${player.name} Game Log - Match-by-Match Stats`,
+    description: `${player.name}'s match-by-match stats for ${player.team}: minutes, goals, assists and cards in ${log.length} logged ${log.length === 1 ? "match" : "matches"}.`,
+    keywords: [
+      `${player.name} game log`,
+      `${player.name} match stats`,
+      `${player.name} last game`,
+      "football player stats",
+    ],
+    alternates: {
+      canonical: `/players/${player.slug}/matches`,
+    },
+    openGraph: {
+      title: `${player.name} Game Log - Match-by-Match Stats`,
+      description: `${player.name}'s minutes, goals, assists and cards, match by match.`,
+      type: "website",
+      url: `/players/${player.slug}/matches`,
+      locale: siteConfig.ogLocale,
+    },
+  }
+}
+
+/**
+ * Player Game Log Page Component
+ */
+export default async function PlayerMatchesPage({
+  params,
+  searchParams,
+}: PlayerMatchesPageProps) {
+  const { slug } = await params
+  const player = await getPlayerRepository().getBySlug(slug)
+  const log = getPlayerMatchLog(slug)
+
+  if (!player || log.length === 0) {
+    notFound()
+  }
+
+  const seasonOptions = Array.from(
+    new Set(log.map((entry) => entry.appearance.season))
+  ).sort((a, b) => getSeasonStartYear(b) - getSeasonStartYear(a))
+  const competitionOptions = Array.from(
+    new Set(log.map((entry) => entry.match.competition))
+  ).sort()
+
+  // Unknown filter values are ignored rather than emptying the log
+  const filters = await searchParams
+  const season = seasonOptions.find((option) => option === filters.season)
+  const competition = competitionOptions.find(
+    (option) => option === filters.competition
+  )
+
+  const entries = log.filter(
+    (entry) =>
+      (!season || entry.appearance.season === season) &&
+      (!competition || entry.match.competition === competition)
+  )
+  const totals = summarizeMatchLog(entries)
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        {/* Breadcrumb Navigation - improves UX and SEO */}
+        <nav
+          aria-label="Breadcrumb"
+          className="border-b border-border bg-muted/30"
+        >
+          <div className="mx-auto max-w-6xl px-4 py-3">
+            <ol className="flex items-center gap-2 text-sm text-muted-foreground">
+              <li>
+                <Link
+                  href="/"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Home
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              <li>
+                <Link
+                  href={`/players/${player.slug}`}
+                  className="transition-colors hover:text-foreground"
+                >
+                  {player.name}
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              <li>
+                <span className="font-medium text-foreground">Game Log</span>
+              </li>
+            </ol>
+          </div>
+        </nav>
+
+        <section className="py-10 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h1 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl lg:text-5xl">
+              {player.name} Game Log
+            </h1>
+            <p className="mt-2 text-lg text-muted-foreground">
+              Match-by-match stats, newest first.
+            </p>
+
+            {/* Filters - a plain GET form, so it works without JavaScript */}
+            <form
+              action={`/players/${player.slug}/matches`}
+              method="get"
+              className="mt-6 flex flex-wrap items-end gap-3"
+            >
+              <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                Season
+                <select
+                  name="season"
+                  defaultValue={season ?? ""}
+                  className="h-10 rounded-md border border-input bg-background px-3 text-sm text-foreground"
+                >
+                  <option value="">All seasons</option>
+                  {seasonOptions.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+                Competition
+                <select
+                  name="competition"
+                  defaultValue={competition ?? ""}
+                  className="h-10 rounded-md border border-input bg-background px-3 text-sm text-foreground"
+                >
+                  <option value="">All competitions</option>
+                  {competitionOptions.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="submit"
+                className="h-10 rounded-md bg-primary px-4 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+              >
+                Apply
+              </button>
+              {(season || competition) && (
+                <Link
+                  href={`/players/${player.slug}/matches`}
+                  className="flex h-10 items-center text-sm font-medium text-primary hover:underline"
+                >
+                  Clear filters
+                </Link>
+              )}
+            </form>
+          </div>
+        </section>
+
+        {/* Game Log Table - totals in the footer follow the filters */}
+        <section className="border-t border-border py-12 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            {entries.length === 0 ? (
+              <p className="text-muted-foreground">
+                No logged matches for these filters.
+              </p>
+            ) : (
+              <div className="rounded-lg border border-border bg-card">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Competition</TableHead>
+                      <TableHead>Match</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead className="text-right">Min</TableHead>
+                      <TableHead className="text-right">Goals</TableHead>
+                      <TableHead className="text-right">Assists</TableHead>
+                      <TableHead className="text-right">
+                        <abbr title="Yellow cards">YC</abbr>
+                      </TableHead>
+                      <TableHead className="text-right">
+                        <abbr title="Red cards">RC</abbr>
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map(
+                      ({ match, appearance, opponent, isHome, result }) => {
+                        const opponentTeam = getTeamByName(opponent)
+
+                        return (
+                          <TableRow key={match.id}>
+                            <TableCell className="whitespace-nowrap text-muted-foreground">
+                              <time dateTime={match.date}>
+                                {formatMatchDate(match)}
+                              </time>
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {match.competition}
+                            </TableCell>
+                            <TableCell>
+                              <span className="text-muted-foreground">
+                                {isHome ? "vs" : "at"}
+                              </span>{" "}
+                              {opponentTeam ? (
+                                <Link
+                                  href={`/teams/${opponentTeam.slug}`}
+                                  className="font-medium text-foreground transition-colors hover:text-primary"
+                                >
+                                  {opponent}
+                                </Link>
+                              ) : (
+                                <span className="font-medium text-foreground">
+                                  {opponent}
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              <span
+                                className={`mr-2 inline-flex h-6 w-6 items-center justify-center rounded text-xs font-semibold ${resultStyles[result]}`}
+                              >
+                                {result}
+                              </span>
+                              {match.homeScore}–{match.awayScore}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {appearance.minutes}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {appearance.goals}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {appearance.assists}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {appearance.yellowCards}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {appearance.redCards}
+                            </TableCell>
+                          </TableRow>
+                        )
+                      }
+                    )}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-foreground">
+                        {totals.appearances}{" "}
+                        {totals.appearances === 1 ? "match" : "matches"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {totals.minutes.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {totals.goals}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {totals.assists}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {totals.yellowCards}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {totals.redCards}
+                      </TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </div>
+            )}
+
+            <div className="mt-8">
+              <Link
+                href={`/players/${player.slug}`}
+                className="text-sm font-medium text-primary hover:underline"
+              >
+                ← Back to {player.name}&apos;s profile
+              </Link>
+            </div>
+          </div>
+        </section>
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
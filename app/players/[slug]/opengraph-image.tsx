@@ -0,0 +1,31 @@
+import { getPlayerRepository } from "@/data/repository"
+import {
+  renderPlayerSocialImage,
+  socialImageSize,
+} from "@/components/player-social-image"
+
+/**
+ * OPEN GRAPH IMAGE - /players/[slug]/opengraph-image
+ *
+ * A generated 1200x630 card with the player's name, team, position and
+ * headline numbers. Next.js adds the og:image tags to the player page
+ * automatically, so generateMetadata doesn't need to list any images.
+ */
+export const alt = "Football player stats card"
+export const size = socialImageSize
+export const contentType = "image/png"
+
+export default async function OpenGraphImage({
+  params,
+}: {
+  params: Promise<{ slug: string }>
+}) {
+  const { slug } = await params
+  const player = await getPlayerRepository().getBySlug(slug)
+
+  if (!player) {
+    return new Response("Player not found", { status: 404 })
+  }
+
+  return renderPlayerSocialImage(player)
+}
@@ -2,9 +2,49 @@ import type { Metadata } from "next"
 import { notFound } from "next/navigation"
 import Image from "next/image"
 import Link from "next/link"
-import { getPlayerBySlug, getAllPlayerSlugs, players } from "@/data/players"
+import {
+  getClubSummaries,
+  getSeasonStartYear,
+  getSeasonSummaries,
+} from "@/data/players"
+import { getPlayerRepository } from "@/data/repository"
+import { getTeamByName } from "@/data/teams"
+import { getNationHref } from "@/data/nations"
+import { getComparisonSlug, getFeaturedRivals } from "@/data/comparisons"
+import { getClubTimeline } from "@/data/transfers"
+import { getCompetitionByName } from "@/data/competitions"
+import {
+  formatMatchDate,
+  getPlayerMatchLog,
+  summarizeMatchLog,
+} from "@/data/matches"
+import {
+  formatMetricValue,
+  getPositionHref,
+  getPositionLabel,
+  getPositionMetrics,
+} from "@/data/positions"
+import { absoluteUrl, siteConfig } from "@/lib/site"
 import { SiteHeader } from "@/components/site-header"
 import { SiteFooter } from "@/components/site-footer"
+import { PlayerCareerCharts } from "@/components/player-career-charts"
+import { ClubTimeline } from "@/components/club-timeline"
+import { PercentileBars } from "@/components/percentile-bars"
+import {
+  advancedStatDefinitions,
+  formatAdvancedStat,
+  getAdvancedStats,
+} from "@/lib/stats"
+import { getPeerGroupLabel, getPercentileRanks } from "@/lib/percentiles"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
 
 /**
  * DYNAMIC PLAYER PAGES - Core of Programmatic SEO
@@ -22,6 +62,9 @@ import { SiteFooter } from "@/components/site-footer"
  * - JSON-LD structured data is embedded for rich search results
  */
 
+/** How many matches the Recent Matches section lists. */
+const RECENT_MATCH_LIMIT = 5
+
 interface PlayerPageProps {
   params: Promise<{ slug: string }>
 }
@@ -37,15 +80,17 @@ export async function generateMetadata({
   params,
 }: PlayerPageProps): Promise<Metadata> {
   const { slug } = await params
-  const player = getPlayerBySlug(slug)
+  const player = await getPlayerRepository().getBySlug(slug)
 
   if (!player) {
     return {
-      title: "Player Not Found - FootballStats",
+      title: "Player Not Found",
       description: "The requested player profile could not be found.",
     }
   }
 
+  const positionLabel = getPositionLabel(player.position)
+
   /**
    * KEYWORD TARGETING IN META TAGS:
    * - Title includes player name + team + "Stats & Profile" (targets long-tail searches)
@@ -53,8 +98,8 @@ export async function generateMetadata({
    * - This targets queries like "Lionel Messi Inter Miami stats"
    */
   return {
-    title: `${player.name} - ${player.team} | Stats & Profile | FootballStats`,
-    description: `${player.name} plays ${player.position} for ${player.team}. Career stats: ${player.goals} goals, ${player.assists} assists in ${player.appearances} appearances. Detailed football player profile and performance analysis.`,
+    title: `${player.name} - ${player.team} | Stats & Profile`,
+    description: `${player.name} plays ${positionLabel} for ${player.team}. Career stats: ${player.goals} goals, ${player.assists} assists in ${player.appearances} appearances. Detailed football player profile and performance analysis.`,
     keywords: [
       `${player.name} stats`,
       `${player.name} ${player.team}`,
@@ -62,19 +107,17 @@ export async function generateMetadata({
       "football player stats",
       "soccer player profile",
     ],
+    alternates: {
+      canonical: `/players/${player.slug}`,
+    },
     openGraph: {
       title: `${player.name} - ${player.team} Stats & Profile`,
-      description: `${player.name} plays ${player.position} for ${player.team}. ${player.goals} goals, ${player.assists} assists in ${player.appearances} appearances.`,
+      description: `${player.name} plays ${positionLabel} for ${player.team}. ${player.goals} goals, ${player.assists} assists in ${player.appearances} appearances.`,
       type: "profile",
-      url: `https://footballstats.vercel.app/players/${player.slug}`,
-      images: [
-        {
-          url: player.image,
-          width: 600,
-          height: 750,
-          alt: `${player.name} - ${player.team}`,
-        },
-      ],
+      url: `/players/${player.slug}`,
+      locale: siteConfig.ogLocale,
+      // og:image and twitter:image come from opengraph-image.tsx and
+      // twitter-image.tsx in this folder
     },
   }
 }
@@ -84,7 +127,8 @@ export async function generateMetadata({
  * This tells Next.js about all possible [slug] values at build time.
  */
 export async function generateStaticParams() {
-  return getAllPlayerSlugs().map((slug) => ({ slug }))
+  const players = await getPlayerRepository().list()
+  return players.map((player) => ({ slug: player.slug }))
 }
 
 /**
@@ -99,12 +143,17 @@ export async function generateStaticParams() {
  */
 export default async function PlayerPage({ params }: PlayerPageProps) {
   const { slug } = await params
-  const player = getPlayerBySlug(slug)
+  const player = await getPlayerRepository().getBySlug(slug)
 
   if (!player) {
     notFound()
   }
 
+  const team = getTeamByName(player.team)
+  const positionLabel = getPositionLabel(player.position)
+  const metrics = getPositionMetrics(player.position)
+  const advancedStats = getAdvancedStats(player)
+
   /**
    * JSON-LD STRUCTURED DATA - SportsPerson Schema
    *
@@ -119,22 +168,37 @@ export default async function PlayerPage({ params }: PlayerPageProps) {
     "@context": "https://schema.org",
     "@type": "Person",
     name: player.name,
-    jobTitle: `Professional Football Player - ${player.position}`,
+    jobTitle: `Professional Football Player - ${positionLabel}`,
     memberOf: {
       "@type": "SportsTeam",
       name: player.team,
+      ...(team && {
+        url: absoluteUrl(`/teams/${team.slug}`),
+      }),
     },
     nationality: {
       "@type": "Country",
       name: player.nationality,
+      url: absoluteUrl(getNationHref(player.nationality)),
     },
-    url: `https://footballstats.vercel.app/players/${player.slug}`,
+    url: absoluteUrl(`/players/${player.slug}`),
     image: player.image,
     description: player.description,
   }
 
+  // Most recent season first; lines within a season keep their authored order
+  const seasons = [...player.seasons].sort(
+    (a, b) => getSeasonStartYear(b.season) - getSeasonStartYear(a.season)
+  )
+
+  const matchLog = getPlayerMatchLog(player.slug)
+  const matchLogTotals = summarizeMatchLog(matchLog)
+
+  const allPlayers = await getPlayerRepository().list()
+  const peerGroupLabel = getPeerGroupLabel(player)
+
   // Get other players for the "More Players" section (internal linking)
-  const otherPlayers = players.filter((p) => p.slug !== player.slug)
+  const otherPlayers = allPlayers.filter((p) => p.slug !== player.slug)
 
   return (
     <>
@@ -178,7 +242,7 @@ export default async function PlayerPage({ params }: PlayerPageProps) {
               </li>
               <li>
                 <Link
-                  href="/#players"
+                  href="/players"
                   className="transition-colors hover:text-foreground"
                 >
                   Players
@@ -215,7 +279,7 @@ export default async function PlayerPage({ params }: PlayerPageProps) {
               <div className="relative aspect-[4/5] overflow-hidden rounded-xl border border-border bg-muted">
                 <Image
                   src={player.image || "/placeholder.svg"}
-                  alt={`${player.name} - ${player.team} ${player.position}`}
+                  alt={`${player.name} - ${player.team} ${positionLabel}`}
                   fill
                   className="object-cover"
                   sizes="(max-width: 768px) 100vw, 400px"
@@ -227,41 +291,55 @@ export default async function PlayerPage({ params }: PlayerPageProps) {
               <div className="flex flex-col gap-6">
                 {/* Name and quick info */}
                 <div>
-                  <div className="mb-2 inline-block rounded-md bg-primary px-3 py-1 text-xs font-semibold text-primary-foreground">
-                    {player.position}
-                  </div>
+                  <Link
+                    href={getPositionHref(player.position)}
+                    className="mb-2 inline-block rounded-md bg-primary px-3 py-1 text-xs font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+                  >
+                    {positionLabel}
+                  </Link>
                   <h1 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl lg:text-5xl">
                     {player.name}
                   </h1>
                   <p className="mt-2 text-lg text-muted-foreground">
-                    {player.team} &middot; {player.nationality}
+                    {team ? (
+                      <Link
+                        href={`/teams/${team.slug}`}
+                        className="transition-colors hover:text-foreground"
+                      >
+                        {player.team}
+                      </Link>
+                    ) : (
+                      player.team
+                    )}{" "}
+                    &middot;{" "}
+                    <Link
+                      href={getNationHref(player.nationality)}
+                      className="transition-colors hover:text-foreground"
+                    >
+                      {player.nationality}
+                    </Link>
                   </p>
                 </div>
 
-                {/* Stats Grid */}
+                {/*
+                 * Stats Grid - headline metrics depend on the player's
+                 * position group, so a goalkeeper leads with clean sheets
+                 * instead of goals.
+                 */}
                 <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
-                  <div className="flex flex-col gap-1 rounded-lg border border-border bg-card p-4">
-                    <span className="text-3xl font-bold text-foreground">
-                      {player.goals}
-                    </span>
-                    <span className="text-sm text-muted-foreground">Goals</span>
-                  </div>
-                  <div className="flex flex-col gap-1 rounded-lg border border-border bg-card p-4">
-                    <span className="text-3xl font-bold text-foreground">
-                      {player.assists}
-                    </span>
-                    <span className="text-sm text-muted-foreground">
-                      Assists
-                    </span>
-                  </div>
-                  <div className="flex flex-col gap-1 rounded-lg border border-border bg-card p-4">
-                    <span className="text-3xl font-bold text-foreground">
-                      {player.appearances}
-                    </span>
-                    <span className="text-sm text-muted-foreground">
-                      Appearances
-                    </span>
-                  </div>
+                  {metrics.map((metric) => (
+                    <div
+                      key={metric.key}
+                      className="flex flex-col gap-1 rounded-lg border border-border bg-card p-4"
+                    >
+                      <span className="text-3xl font-bold text-foreground">
+                        {formatMetricValue(metric, player)}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        {metric.label}
+                      </span>
+                    </div>
+                  ))}
                   <div className="flex flex-col gap-1 rounded-lg border border-border bg-card p-4">
                     <span className="text-3xl font-bold text-foreground">
                       {player.age}
@@ -270,39 +348,46 @@ export default async function PlayerPage({ params }: PlayerPageProps) {
                   </div>
                 </div>
 
-                {/* Goals per appearance ratio */}
+                {/*
+                 * Performance Ratios - computed by lib/stats.ts, which the
+                 * API shares. Rates over few minutes, or over only the seasons
+                 * that track their inputs, say so instead of passing as
+                 * career figures.
+                 */}
                 <div className="rounded-lg border border-border bg-muted/30 p-4">
                   <h2 className="mb-3 text-sm font-semibold uppercase tracking-wider text-muted-foreground">
                     Performance Ratios
                   </h2>
                   <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
-                    <div>
-                      <span className="text-xl font-bold text-foreground">
-                        {(player.goals / player.appearances).toFixed(2)}
-                      </span>
-                      <p className="text-xs text-muted-foreground">
-                        Goals per App
-                      </p>
-                    </div>
-                    <div>
-                      <span className="text-xl font-bold text-foreground">
-                        {(player.assists / player.appearances).toFixed(2)}
-                      </span>
-                      <p className="text-xs text-muted-foreground">
-                        Assists per App
-                      </p>
-                    </div>
-                    <div>
-                      <span className="text-xl font-bold text-foreground">
-                        {(
-                          (player.goals + player.assists) /
-                          player.appearances
-                        ).toFixed(2)}
-                      </span>
-                      <p className="text-xs text-muted-foreground">
-                        G+A per App
-                      </p>
-                    </div>
+                    {advancedStatDefinitions.map((definition) => {
+                      const stat = advancedStats[definition.key]
+                      const note =
+                        stat.value === null
+                          ? stat.minutes > 0
+                            ? null
+                            : "Not tracked"
+                          : stat.smallSample
+                            ? `Small sample: ${stat.minutes.toLocaleString()} min`
+                            : stat.minutes < player.minutes
+                              ? `Over ${stat.minutes.toLocaleString()} min tracked`
+                              : null
+
+                      return (
+                        <div key={definition.key}>
+                          <span className="text-xl font-bold text-foreground">
+                            {formatAdvancedStat(definition, stat)}
+                          </span>
+                          <p className="text-xs text-muted-foreground">
+                            {definition.label}
+                          </p>
+                          {note && (
+                            <p className="text-xs italic text-muted-foreground">
+                              {note}
+                            </p>
+                          )}
+                        </div>
+                      )
+                    })}
                   </div>
                 </div>
 
@@ -320,6 +405,205 @@ export default async function PlayerPage({ params }: PlayerPageProps) {
           </div>
         </section>
 
+        {/* Percentile Ranks - every profile metric against positional peers */}
+        <section className="border-t border-border py-12 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h2 className="mb-6 text-2xl font-bold tracking-tight text-foreground">
+              Compared with Other {peerGroupLabel}
+            </h2>
+            <PercentileBars
+              ranks={getPercentileRanks(player, allPlayers)}
+              peerGroupLabel={peerGroupLabel}
+            />
+          </div>
+        </section>
+
+        {/* Career Trajectory Charts - rendered on the client by recharts */}
+        <section className="border-t border-border py-12 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h2 className="mb-6 text-2xl font-bold tracking-tight text-foreground">
+              Career Trajectory
+            </h2>
+            <PlayerCareerCharts
+              playerName={player.name}
+              seasons={getSeasonSummaries(player)}
+              clubs={getClubSummaries(player)}
+            />
+          </div>
+        </section>
+
+        {/* Club History - every spell and the transfer that started it */}
+        <section className="border-t border-border py-12 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h2 className="mb-6 text-2xl font-bold tracking-tight text-foreground">
+              Club History
+            </h2>
+            <ClubTimeline
+              spells={getClubTimeline(player)}
+              currentClub={player.team}
+            />
+          </div>
+        </section>
+
+        {/*
+         * Recent Matches - the latest logged appearances, linking through to
+         * the full game log. Cards are only known from the logs.
+         */}
+        {matchLog.length > 0 && (
+          <section className="border-t border-border py-12 md:py-16">
+            <div className="mx-auto max-w-6xl px-4">
+              <div className="mb-6 flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="text-2xl font-bold tracking-tight text-foreground">
+                  Recent Matches
+                </h2>
+                <Link
+                  href={`/players/${player.slug}/matches`}
+                  className="text-sm font-medium text-primary hover:underline"
+                >
+                  Full game log →
+                </Link>
+              </div>
+              <p className="mb-4 text-sm text-muted-foreground">
+                {matchLogTotals.appearances} logged{" "}
+                {matchLogTotals.appearances === 1 ? "match" : "matches"} ·{" "}
+                {matchLogTotals.minutes.toLocaleString()} minutes ·{" "}
+                {matchLogTotals.goals} goals · {matchLogTotals.assists} assists
+                · {matchLogTotals.yellowCards} yellow ·{" "}
+                {matchLogTotals.redCards} red
+              </p>
+              <ul className="divide-y divide-border rounded-lg border border-border bg-card">
+                {matchLog
+                  .slice(0, RECENT_MATCH_LIMIT)
+                  .map(({ match, appearance, opponent, isHome }) => (
+                    <li
+                      key={match.id}
+                      className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 text-sm"
+                    >
+                      <span>
+                        <time
+                          dateTime={match.date}
+                          className="mr-3 text-muted-foreground"
+                        >
+                          {formatMatchDate(match)}
+                        </time>
+                        <span className="font-medium text-foreground">
+                          {isHome ? "vs" : "at"} {opponent}
+                        </span>{" "}
+                        <span className="text-muted-foreground">
+                          {match.homeScore}–{match.awayScore} ·{" "}
+                          {match.competition}
+                        </span>
+                      </span>
+                      <span className="text-muted-foreground">
+                        {appearance.minutes}&apos; · {appearance.goals} G ·{" "}
+                        {appearance.assists} A
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          </section>
+        )}
+
+        {/*
+         * Season-by-Season Breakdown
+         * The career totals above are summed from these lines, so the table
+         * doubles as a transparent audit trail for every headline number and
+         * targets long-tail searches like "[player name] 2023/24 stats".
+         * Lines for competition-seasons with match logs are summed from them.
+         */}
+        <section className="border-t border-border py-12 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h2 className="mb-6 text-2xl font-bold tracking-tight text-foreground">
+              Season-by-Season Stats
+            </h2>
+            <div className="rounded-lg border border-border bg-card">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Season</TableHead>
+                    <TableHead>Club</TableHead>
+                    <TableHead>Competition</TableHead>
+                    <TableHead className="text-right">Apps</TableHead>
+                    <TableHead className="text-right">Goals</TableHead>
+                    <TableHead className="text-right">Assists</TableHead>
+                    <TableHead className="text-right">Minutes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {seasons.map((line) => {
+                    const club = getTeamByName(line.club)
+                    const competition = getCompetitionByName(line.competition)
+
+                    return (
+                      <TableRow
+                        key={`${line.season}-${line.club}-${line.competition}`}
+                      >
+                        <TableCell className="font-medium text-foreground">
+                          {line.season}
+                        </TableCell>
+                        <TableCell>
+                          {club ? (
+                            <Link
+                              href={`/teams/${club.slug}`}
+                              className="transition-colors hover:text-primary"
+                            >
+                              {line.club}
+                            </Link>
+                          ) : (
+                            line.club
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {competition ? (
+                            <Link
+                              href={`/competitions/${competition.slug}`}
+                              className="transition-colors hover:text-foreground"
+                            >
+                              {line.competition}
+                            </Link>
+                          ) : (
+                            line.competition
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.appearances}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.goals}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.assists}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.minutes.toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-foreground">
+                      Career Total
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {player.appearances}
+                    </TableCell>
+                    <TableCell className="text-right">{player.goals}</TableCell>
+                    <TableCell className="text-right">
+                      {player.assists}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {player.minutes.toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          </div>
+        </section>
+
         {/*
          * "More Players" Section - Internal Linking for SEO
          * Cross-linking between player pages is crucial for programmatic SEO:
@@ -360,9 +644,29 @@ export default async function PlayerPage({ params }: PlayerPageProps) {
                 </Link>
               ))}
             </div>
+
+            {/* Head-to-head links - featured pairings, one canonical URL each */}
+            <div className="mt-10 text-center">
+              <h3 className="mb-3 text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                Compare {player.name}
+              </h3>
+              <ul className="flex flex-wrap justify-center gap-2">
+                {getFeaturedRivals(player, allPlayers).map((p) => (
+                  <li key={p.slug}>
+                    <Link
+                      href={`/compare/${getComparisonSlug(player.slug, p.slug)}`}
+                      className="inline-block rounded-md border border-border bg-card px-3 py-1 text-sm text-muted-foreground transition-colors hover:border-primary/30 hover:text-foreground"
+                    >
+                      vs {p.name}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
             <div className="mt-8 text-center">
               <Link
-                href="/#players"
+                href="/players"
                 className="inline-flex items-center gap-2 rounded-lg border border-border bg-card px-6 py-2.5 text-sm font-medium text-foreground transition-colors hover:bg-muted"
               >
                 <svg
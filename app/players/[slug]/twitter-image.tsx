@@ -0,0 +1,30 @@
+import { getPlayerRepository } from "@/data/repository"
+import {
+  renderPlayerSocialImage,
+  socialImageSize,
+} from "@/components/player-social-image"
+
+/**
+ * TWITTER IMAGE - /players/[slug]/twitter-image
+ *
+ * Same card as opengraph-image.tsx, sized for the summary_large_image card
+ * set in app/layout.tsx.
+ */
+export const alt = "Football player stats card"
+export const size = socialImageSize
+export const contentType = "image/png"
+
+export default async function TwitterImage({
+  params,
+}: {
+  params: Promise<{ slug: string }>
+}) {
+  const { slug } = await params
+  const player = await getPlayerRepository().getBySlug(slug)
+
+  if (!player) {
+    return new Response("Player not found", { status: 404 })
+  }
+
+  return renderPlayerSocialImage(player)
+}
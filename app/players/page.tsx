@@ -0,0 +1,47 @@
+import type { Metadata } from "next"
+import { getPlayerRepository } from "@/data/repository"
+import { PLAYERS_PER_PAGE } from "@/lib/player-index"
+import { siteConfig } from "@/lib/site"
+import { PlayerDirectory } from "@/components/player-directory"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+
+/**
+ * PLAYER INDEX - /players
+ *
+ * The first page of the paginated player index, and the crawlable path to
+ * every player page once the dataset outgrows the homepage grid. Later pages
+ * live at /players/page/[page].
+ */
+export const metadata: Metadata = {
+  title: "All Football Players - Stats & Profiles",
+  description:
+    "Browse every football player in our database, with career stats and profiles for each one.",
+  alternates: {
+    canonical: "/players",
+  },
+  openGraph: {
+    title: "All Football Players - Stats & Profiles",
+    description: "Browse every football player in our database.",
+    type: "website",
+    url: "/players",
+    locale: siteConfig.ogLocale,
+  },
+}
+
+export default async function PlayersPage() {
+  const page = await getPlayerRepository().paginate({
+    page: 1,
+    pageSize: PLAYERS_PER_PAGE,
+  })
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        <PlayerDirectory page={page} />
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
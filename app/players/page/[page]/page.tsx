@@ -0,0 +1,84 @@
+import type { Metadata } from "next"
+import { notFound, permanentRedirect } from "next/navigation"
+import { getPlayerRepository } from "@/data/repository"
+import {
+  getPlayerIndexHref,
+  getPlayerIndexPageCount,
+  PLAYERS_PER_PAGE,
+} from "@/lib/player-index"
+import { PlayerDirectory } from "@/components/player-directory"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+
+/**
+ * PLAYER INDEX PAGES - /players/page/[page]
+ *
+ * Pages 2 and up of the player index. /players/page/1 redirects to /players
+ * so the first page has a single URL; anything else that isn't a page number
+ * in range is a 404.
+ */
+
+interface PlayerIndexPageProps {
+  params: Promise<{ page: string }>
+}
+
+function parsePageNumber(value: string): number | undefined {
+  return /^[1-9]\d*$/.test(value) ? Number(value) : undefined
+}
+
+export async function generateMetadata({
+  params,
+}: PlayerIndexPageProps): Promise<Metadata> {
+  const { page } = await params
+  const pageNumber = parsePageNumber(page) ?? 1
+
+  return {
+    title: `All Football Players - Page ${pageNumber}`,
+    description: `Page ${pageNumber} of every football player in our database, with career stats and profiles for each one.`,
+    alternates: {
+      canonical: getPlayerIndexHref(pageNumber),
+    },
+  }
+}
+
+/**
+ * Generate static params for every page after the first.
+ */
+export async function generateStaticParams() {
+  const players = await getPlayerRepository().list()
+  const pageCount = getPlayerIndexPageCount(players.length)
+
+  return Array.from({ length: pageCount - 1 }, (_, i) => ({
+    page: String(i + 2),
+  }))
+}
+
+export default async function PlayerIndexPage({
+  params,
+}: PlayerIndexPageProps) {
+  const pageNumber = parsePageNumber((await params).page)
+
+  if (pageNumber === 1) {
+    permanentRedirect(getPlayerIndexHref(1))
+  }
+
+  const page = await getPlayerRepository().paginate({
+    page: pageNumber ?? 0,
+    pageSize: PLAYERS_PER_PAGE,
+  })
+
+  // paginate() clamps out-of-range requests; those URLs shouldn't exist
+  if (pageNumber === undefined || page.page !== pageNumber) {
+    notFound()
+  }
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        <PlayerDirectory page={page} />
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
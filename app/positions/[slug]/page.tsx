@@ -0,0 +1,317 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import Link from "next/link"
+import {
+  formatMetricValue,
+  getAllPositionSlugs,
+  getAllPositions,
+  getPositionBySlug,
+  getPositionHref,
+  getPositionLabel,
+  getPositionPlayers,
+  positionGroups,
+} from "@/data/positions"
+import { getTeamByName } from "@/data/teams"
+import { absoluteUrl, siteConfig } from "@/lib/site"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+/**
+ * DYNAMIC POSITION PAGES - Role Rankings
+ *
+ * URL format: /positions/[slug] (e.g., /positions/forwards, /positions/wingers)
+ *
+ * Targets role-level queries ("best football strikers stats"). Players are
+ * ranked with the metrics defined for their position group, so midfielders
+ * are compared on goal contributions and goalkeepers on clean sheets.
+ */
+
+interface PositionPageProps {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * generateMetadata - Dynamic SEO Meta Tags for each position page.
+ */
+export async function generateMetadata({
+  params,
+}: PositionPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const position = getPositionBySlug(slug)
+
+  if (!position) {
+    return {
+      title: "Position Not Found",
+      description: "The requested position could not be found.",
+    }
+  }
+
+  const [rankBy] = positionGroups[position.group].metrics
+
+  return {
+    title: `Best ${position.pluralLabel} - Stats & Rankings`,
+    description: `Football ${position.pluralLabel.toLowerCase()} ranked by ${rankBy.label.toLowerCase()}. Compare career stats and performance for the top ${position.pluralLabel.toLowerCase()} in world football.`,
+    keywords: [
+      `best ${position.pluralLabel.toLowerCase()}`,
+      `${position.label.toLowerCase()} stats`,
+      `football ${position.pluralLabel.toLowerCase()} rankings`,
+      "football player stats",
+    ],
+    alternates: {
+      canonical: `/positions/${position.slug}`,
+    },
+    openGraph: {
+      title: `Best ${position.pluralLabel} - Stats & Rankings`,
+      description: `Football ${position.pluralLabel.toLowerCase()} ranked by ${rankBy.label.toLowerCase()}.`,
+      type: "website",
+      url: `/positions/${position.slug}`,
+      locale: siteConfig.ogLocale,
+    },
+  }
+}
+
+/**
+ * Generate static params for every position that has at least one player.
+ */
+export async function generateStaticParams() {
+  return (await getAllPositionSlugs()).map((slug) => ({ slug }))
+}
+
+/**
+ * Position Ranking Page Component
+ */
+export default async function PositionPage({ params }: PositionPageProps) {
+  const { slug } = await params
+  const position = getPositionBySlug(slug)
+
+  if (!position) {
+    notFound()
+  }
+
+  const rankedPlayers = await getPositionPlayers(position)
+
+  // Don't publish empty rankings - thin pages hurt the whole site
+  if (rankedPlayers.length === 0) {
+    notFound()
+  }
+
+  const { metrics, ratio } = positionGroups[position.group]
+  const columns = [...metrics, ratio]
+  const isGroupPage = position.roles.length > 1
+
+  // Sibling pages in the same group (internal linking between roles)
+  const publishedSlugs = new Set(await getAllPositionSlugs())
+  const relatedPositions = getAllPositions().filter(
+    (related) =>
+      related.group === position.group &&
+      related.slug !== position.slug &&
+      publishedSlugs.has(related.slug)
+  )
+
+  /**
+   * JSON-LD STRUCTURED DATA - ItemList Schema
+   *
+   * Marks the ranking up as an ordered list of player pages, which makes it
+   * eligible for list-style rich results.
+   */
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@type": "ItemList",
+    name: `Best ${position.pluralLabel}`,
+    itemListOrder: "https://schema.org/ItemListOrderDescending",
+    numberOfItems: rankedPlayers.length,
+    itemListElement: rankedPlayers.map((player, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      name: player.name,
+      url: absoluteUrl(`/players/${player.slug}`),
+    })),
+  }
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        {/* JSON-LD structured data embedded in the page head */}
+        <script
+          type="application/ld+json"
+          // biome-ignore lint: JSON-LD needs dangerouslySetInnerHTML
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+        />
+
+        {/* Breadcrumb Navigation - improves UX and SEO */}
+        <nav
+          aria-label="Breadcrumb"
+          className="border-b border-border bg-muted/30"
+        >
+          <div className="mx-auto max-w-6xl px-4 py-3">
+            <ol className="flex items-center gap-2 text-sm text-muted-foreground">
+              <li>
+                <Link
+                  href="/"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Home
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              {!isGroupPage &&
+                position.slug !== positionGroups[position.group].slug && (
+                  <>
+                    <li>
+                      <Link
+                        href={`/positions/${positionGroups[position.group].slug}`}
+                        className="transition-colors hover:text-foreground"
+                      >
+                        {positionGroups[position.group].pluralLabel}
+                      </Link>
+                    </li>
+                    <li aria-hidden="true">
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        className="h-3.5 w-3.5"
+                      >
+                        <path d="m9 18 6-6-6-6" />
+                      </svg>
+                    </li>
+                  </>
+                )}
+              <li>
+                <span className="font-medium text-foreground">
+                  {position.pluralLabel}
+                </span>
+              </li>
+            </ol>
+          </div>
+        </nav>
+
+        {/* Position Hero Section */}
+        <section className="py-10 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h1 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl lg:text-5xl">
+              Best {position.pluralLabel}
+            </h1>
+            <p className="mt-2 text-lg text-muted-foreground">
+              Ranked by {metrics[0].label.toLowerCase()}, with{" "}
+              {ratio.label.toLowerCase()} for context.
+            </p>
+
+            {relatedPositions.length > 0 && (
+              <ul className="mt-6 flex flex-wrap gap-2">
+                {relatedPositions.map((related) => (
+                  <li key={related.slug}>
+                    <Link
+                      href={`/positions/${related.slug}`}
+                      className="inline-block rounded-md border border-border bg-card px-3 py-1 text-sm text-muted-foreground transition-colors hover:border-primary/30 hover:text-foreground"
+                    >
+                      {related.pluralLabel}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+
+        {/* Ranking Table - every row links to a player page */}
+        <section className="border-t border-border py-12 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <div className="rounded-lg border border-border bg-card">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Player</TableHead>
+                    <TableHead>Team</TableHead>
+                    {isGroupPage && <TableHead>Role</TableHead>}
+                    {columns.map((metric) => (
+                      <TableHead key={metric.key} className="text-right">
+                        {metric.label}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rankedPlayers.map((player, index) => {
+                    const team = getTeamByName(player.team)
+
+                    return (
+                      <TableRow key={player.slug}>
+                        <TableCell className="text-muted-foreground">
+                          {index + 1}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          <Link
+                            href={`/players/${player.slug}`}
+                            className="text-foreground transition-colors hover:text-primary"
+                          >
+                            {player.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {team ? (
+                            <Link
+                              href={`/teams/${team.slug}`}
+                              className="transition-colors hover:text-foreground"
+                            >
+                              {player.team}
+                            </Link>
+                          ) : (
+                            player.team
+                          )}
+                        </TableCell>
+                        {isGroupPage && (
+                          <TableCell className="text-muted-foreground">
+                            <Link
+                              href={getPositionHref(player.position)}
+                              className="transition-colors hover:text-foreground"
+                            >
+                              {getPositionLabel(player.position)}
+                            </Link>
+                          </TableCell>
+                        )}
+                        {columns.map((metric) => (
+                          <TableCell key={metric.key} className="text-right">
+                            {formatMetricValue(metric, player)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </section>
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
@@ -0,0 +1,33 @@
+import type { MetadataRoute } from "next"
+import { isIndexable } from "@/lib/env"
+import { getSitemapIndexUrl } from "@/lib/sitemap"
+
+/**
+ * ROBOTS.TXT - /robots.txt
+ *
+ * Production: allow everything except the JSON API and advertise the sitemap
+ * index so crawlers find every player and hub page.
+ *
+ * Preview and development: disallow everything. Paired with the noindex
+ * robots meta tag set in app/layout.tsx, this keeps preview deployments out
+ * of search results even if a preview URL leaks.
+ */
+export default function robots(): MetadataRoute.Robots {
+  if (!isIndexable()) {
+    return {
+      rules: {
+        userAgent: "*",
+        disallow: "/",
+      },
+    }
+  }
+
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      disallow: "/api/",
+    },
+    sitemap: getSitemapIndexUrl(),
+  }
+}
@@ -0,0 +1,202 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { getPositionLabel } from "@/data/positions"
+import {
+  getSearchIndex,
+  highlight,
+  searchPlayers,
+  suggestQuery,
+} from "@/lib/search"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+
+/**
+ * SEARCH RESULTS PAGE - /search?q=
+ *
+ * Rendered on the server for every request, so results are plain HTML links
+ * that work without JavaScript and that crawlers can follow. Every query is
+ * canonical to /search, so result lists for arbitrary queries don't compete
+ * with each other, or with the player pages they link to, in the index.
+ */
+
+interface SearchPageProps {
+  searchParams: Promise<{ q?: string | string[] }>
+}
+
+async function getQuery(searchParams: SearchPageProps["searchParams"]) {
+  const { q } = await searchParams
+  return (Array.isArray(q) ? q[0] : q)?.trim() ?? ""
+}
+
+export async function generateMetadata({
+  searchParams,
+}: SearchPageProps): Promise<Metadata> {
+  const query = await getQuery(searchParams)
+
+  return {
+    title: query ? `Search results for "${query}"` : "Search Players",
+    description:
+      "Search football players by name, team, nationality, position or career highlights.",
+    alternates: {
+      canonical: "/search",
+    },
+  }
+}
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return highlight(text, terms).map((segment, index) =>
+    segment.match ? (
+      <mark
+        key={index}
+        className="rounded-sm bg-primary/15 px-0.5 text-foreground"
+      >
+        {segment.text}
+      </mark>
+    ) : (
+      segment.text
+    )
+  )
+}
+
+/**
+ * Search Page Component
+ */
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const query = await getQuery(searchParams)
+  const index = await getSearchIndex()
+  const results = query ? searchPlayers(index, query) : []
+  const suggestion = query ? suggestQuery(index, query) : null
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        {/* Breadcrumb Navigation - improves UX and SEO */}
+        <nav
+          aria-label="Breadcrumb"
+          className="border-b border-border bg-muted/30"
+        >
+          <div className="mx-auto max-w-6xl px-4 py-3">
+            <ol className="flex items-center gap-2 text-sm text-muted-foreground">
+              <li>
+                <Link
+                  href="/"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Home
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              <li>
+                <span className="font-medium text-foreground">Search</span>
+              </li>
+            </ol>
+          </div>
+        </nav>
+
+        <section className="py-10 md:py-16">
+          <div className="mx-auto max-w-3xl px-4">
+            <h1 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl">
+              {query ? `Results for "${query}"` : "Search Players"}
+            </h1>
+
+            {/* A plain GET form, so searching works without JavaScript */}
+            <form action="/search" method="get" role="search" className="mt-6">
+              <div className="flex gap-2">
+                <label htmlFor="search-query" className="sr-only">
+                  Search players
+                </label>
+                <input
+                  id="search-query"
+                  type="search"
+                  name="q"
+                  defaultValue={query}
+                  placeholder="Name, team, nationality or position..."
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                />
+                <button
+                  type="submit"
+                  className="rounded-md bg-primary px-4 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+                >
+                  Search
+                </button>
+              </div>
+            </form>
+
+            {suggestion && (
+              <p className="mt-4 text-sm text-muted-foreground">
+                Did you mean{" "}
+                <Link
+                  href={`/search?q=${encodeURIComponent(suggestion)}`}
+                  className="font-medium text-primary hover:underline"
+                >
+                  {suggestion}
+                </Link>
+                ?
+              </p>
+            )}
+
+            {query && (
+              <p className="mt-6 text-sm text-muted-foreground">
+                {results.length === 0
+                  ? "No players found."
+                  : `${results.length} ${results.length === 1 ? "player" : "players"} found`}
+              </p>
+            )}
+
+            <ol className="mt-4 flex flex-col gap-4">
+              {results.map(({ player, matchedTerms }) => (
+                <li
+                  key={player.slug}
+                  className="rounded-lg border border-border bg-card p-5"
+                >
+                  <h2 className="text-lg font-semibold text-foreground">
+                    <Link
+                      href={`/players/${player.slug}`}
+                      className="transition-colors hover:text-primary"
+                    >
+                      <Highlighted text={player.name} terms={matchedTerms} />
+                    </Link>
+                  </h2>
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    <Highlighted
+                      text={`${player.team} · ${player.nationality} · ${getPositionLabel(player.position)}`}
+                      terms={matchedTerms}
+                    />
+                  </p>
+                  <p className="mt-3 text-sm leading-relaxed text-foreground/80">
+                    <Highlighted
+                      text={player.description}
+                      terms={matchedTerms}
+                    />
+                  </p>
+                </li>
+              ))}
+            </ol>
+
+            {!query && (
+              <p className="mt-6 text-sm text-muted-foreground">
+                Try a player name like &quot;Haaland&quot;, a club like
+                &quot;Real Madrid&quot; or a phrase like &quot;World Cup&quot;.
+              </p>
+            )}
+          </div>
+        </section>
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
@@ -0,0 +1,26 @@
+import type { MetadataRoute } from "next"
+import { getSitemapChunk, getSitemapCount } from "@/lib/sitemap"
+
+/**
+ * SITEMAP FILES - /sitemap/[id].xml
+ *
+ * Sitemaps tell search engines about every player and hub page, so new
+ * pages get crawled without waiting to be discovered through links.
+ *
+ * A single sitemap may hold at most 50,000 URLs, so the URL list is split
+ * into numbered files (/sitemap/0.xml, /sitemap/1.xml, ...). They are all
+ * listed in the sitemap index at /sitemap.xml (see app/sitemap.xml/route.ts),
+ * which is the one URL crawlers need to know. Today everything fits in
+ * /sitemap/0.xml; more files appear automatically as the dataset grows.
+ */
+export async function generateSitemaps() {
+  return Array.from({ length: await getSitemapCount() }, (_, id) => ({ id }))
+}
+
+export default async function sitemap({
+  id,
+}: {
+  id: Promise<string>
+}): Promise<MetadataRoute.Sitemap> {
+  return getSitemapChunk(Number(await id))
+}
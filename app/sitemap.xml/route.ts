@@ -0,0 +1,42 @@
+import { getSitemapChunk, getSitemapCount, getSitemapUrl } from "@/lib/sitemap"
+
+/**
+ * SITEMAP INDEX - /sitemap.xml
+ *
+ * Next.js serves the numbered sitemap files generated by app/sitemap.ts but
+ * doesn't generate an index that ties them together, so it is built here.
+ * Each entry's lastmod is the newest lastModified date in that file.
+ */
+export async function GET() {
+  const count = await getSitemapCount()
+  const sitemaps = await Promise.all(
+    Array.from({ length: count }, async (_, id) => {
+      const lastModified = (await getSitemapChunk(id)).reduce(
+        (latest, entry) =>
+          Math.max(latest, new Date(entry.lastModified ?? 0).getTime()),
+        0
+      )
+
+      return [
+        "  <sitemap>",
+        `    <loc>${getSitemapUrl(id)}</loc>`,
+        `    <lastmod>${new Date(lastModified).toISOString()}</lastmod>`,
+        "  </sitemap>",
+      ].join("\n")
+    })
+  )
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    "</sitemapindex>",
+  ].join("\n")
+
+  return new Response(xml, {
+    headers: {
+      "Content-Type": "application/xml",
+      "Cache-Control": "public, max-age=0, must-revalidate",
+    },
+  })
+}
@@ -0,0 +1,274 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import Image from "next/image"
+import Link from "next/link"
+import {
+  getAllTeamSlugs,
+  getFormerTeamPlayers,
+  getTeamBySlug,
+  getTeamSquad,
+} from "@/data/teams"
+import { getCompetitionByName } from "@/data/competitions"
+import { PlayerCard } from "@/components/player-card"
+import { absoluteUrl, siteConfig } from "@/lib/site"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+
+/**
+ * DYNAMIC TEAM PAGES - Club Hubs
+ *
+ * URL format: /teams/[slug] (e.g., /teams/real-madrid)
+ *
+ * Team pages sit between the homepage and player pages in the site hierarchy.
+ * They target club-level queries ("Real Madrid player stats") and pass link
+ * equity down to every player who has played for the club.
+ */
+
+interface TeamPageProps {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * generateMetadata - Dynamic SEO Meta Tags for each club hub.
+ */
+export async function generateMetadata({
+  params,
+}: TeamPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const team = getTeamBySlug(slug)
+
+  if (!team) {
+    return {
+      title: "Team Not Found",
+      description: "The requested team could not be found.",
+    }
+  }
+
+  const squad = await getTeamSquad(team)
+
+  return {
+    title: `${team.name} Squad & Player Stats`,
+    description: `${team.name} player stats and profiles. ${team.league} club from ${team.country} with ${squad.length} featured ${squad.length === 1 ? "player" : "players"}: goals, assists and appearances for the current squad and former stars.`,
+    keywords: [
+      `${team.name} stats`,
+      `${team.name} squad`,
+      `${team.name} players`,
+      `${team.league} player stats`,
+      "football player stats",
+    ],
+    alternates: {
+      canonical: `/teams/${team.slug}`,
+    },
+    openGraph: {
+      title: `${team.name} Squad & Player Stats`,
+      description: `Player stats and profiles for ${team.name} (${team.league}, ${team.country}).`,
+      type: "website",
+      url: `/teams/${team.slug}`,
+      locale: siteConfig.ogLocale,
+      ...(team.crest && {
+        images: [
+          {
+            url: team.crest,
+            alt: `${team.name} crest`,
+          },
+        ],
+      }),
+    },
+  }
+}
+
+/**
+ * Generate static params for all team pages.
+ */
+export async function generateStaticParams() {
+  return getAllTeamSlugs().map((slug) => ({ slug }))
+}
+
+/**
+ * Team Hub Page Component
+ *
+ * Renders the club's current squad followed by former players, both as
+ * PlayerCard grids so every card is a crawlable link to a player page.
+ */
+export default async function TeamPage({ params }: TeamPageProps) {
+  const { slug } = await params
+  const team = getTeamBySlug(slug)
+
+  if (!team) {
+    notFound()
+  }
+
+  const squad = await getTeamSquad(team)
+  const formerPlayers = await getFormerTeamPlayers(team)
+  const league = getCompetitionByName(team.league)
+
+  /**
+   * JSON-LD STRUCTURED DATA - SportsTeam Schema
+   *
+   * Connects the club entity to its athletes and league so Google can build
+   * the team → player relationship in the Knowledge Graph.
+   */
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@type": "SportsTeam",
+    name: team.name,
+    sport: "Soccer",
+    url: absoluteUrl(`/teams/${team.slug}`),
+    ...(team.crest && { logo: team.crest }),
+    location: {
+      "@type": "Country",
+      name: team.country,
+    },
+    memberOf: {
+      "@type": "SportsOrganization",
+      name: team.league,
+      ...(league && {
+        url: absoluteUrl(`/competitions/${league.slug}`),
+      }),
+    },
+    athlete: squad.map((player) => ({
+      "@type": "Person",
+      name: player.name,
+      url: absoluteUrl(`/players/${player.slug}`),
+    })),
+  }
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        {/* JSON-LD structured data embedded in the page head */}
+        <script
+          type="application/ld+json"
+          // biome-ignore lint: JSON-LD needs dangerouslySetInnerHTML
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+        />
+
+        {/* Breadcrumb Navigation - improves UX and SEO */}
+        <nav
+          aria-label="Breadcrumb"
+          className="border-b border-border bg-muted/30"
+        >
+          <div className="mx-auto max-w-6xl px-4 py-3">
+            <ol className="flex items-center gap-2 text-sm text-muted-foreground">
+              <li>
+                <Link
+                  href="/"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Home
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              <li>
+                <Link
+                  href="/#teams"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Teams
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              <li>
+                <span className="font-medium text-foreground">{team.name}</span>
+              </li>
+            </ol>
+          </div>
+        </nav>
+
+        {/* Team Hero Section */}
+        <section className="py-10 md:py-16">
+          <div className="mx-auto flex max-w-6xl flex-col items-center gap-6 px-4 text-center md:flex-row md:text-left">
+            <div className="relative h-24 w-24 flex-shrink-0 overflow-hidden rounded-xl border border-border bg-muted">
+              <Image
+                src={team.crest || "/placeholder-logo.svg"}
+                alt={`${team.name} crest`}
+                fill
+                className="object-contain p-2"
+                sizes="96px"
+                priority
+              />
+            </div>
+            <div>
+              <h1 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl lg:text-5xl">
+                {team.name}
+              </h1>
+              <p className="mt-2 text-lg text-muted-foreground">
+                {league ? (
+                  <Link
+                    href={`/competitions/${league.slug}`}
+                    className="transition-colors hover:text-foreground"
+                  >
+                    {team.league}
+                  </Link>
+                ) : (
+                  team.league
+                )}{" "}
+                &middot; {team.country}
+              </p>
+            </div>
+          </div>
+        </section>
+
+        {/* Current Squad - each card links to a player page */}
+        {squad.length > 0 && (
+          <section className="border-t border-border py-12 md:py-16">
+            <div className="mx-auto max-w-6xl px-4">
+              <h2 className="mb-8 text-2xl font-bold tracking-tight text-foreground">
+                Current Squad
+              </h2>
+              <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+                {squad.map((player) => (
+                  <PlayerCard key={player.slug} player={player} />
+                ))}
+              </div>
+            </div>
+          </section>
+        )}
+
+        {/* Former Players - keeps alumni pages linked from the club hub */}
+        {formerPlayers.length > 0 && (
+          <section className="border-t border-border bg-muted/30 py-12 md:py-16">
+            <div className="mx-auto max-w-6xl px-4">
+              <h2 className="mb-8 text-2xl font-bold tracking-tight text-foreground">
+                Former Players
+              </h2>
+              <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+                {formerPlayers.map((player) => (
+                  <PlayerCard key={player.slug} player={player} />
+                ))}
+              </div>
+            </div>
+          </section>
+        )}
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
@@ -0,0 +1,180 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { getPlayerRepository } from "@/data/repository"
+import { getTeamByName } from "@/data/teams"
+import {
+  formatTransferDate,
+  formatTransferFee,
+  getRecentTransfers,
+  transferTypeLabels,
+} from "@/data/transfers"
+import { siteConfig } from "@/lib/site"
+import { SiteHeader } from "@/components/site-header"
+import { SiteFooter } from "@/components/site-footer"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+/**
+ * TRANSFERS PAGE - /transfers
+ *
+ * The most recent moves across every player, newest first. Targets transfer
+ * queries ("Bellingham transfer fee") and links each move to the player page
+ * and to the hub pages of both clubs where they exist.
+ */
+
+/** How many moves the page lists. */
+const RECENT_TRANSFER_LIMIT = 50
+
+export const metadata: Metadata = {
+  title: "Recent Football Transfers - Fees & Moves",
+  description:
+    "The latest football transfers: who moved where, when, and for how much, including loans and free transfers.",
+  keywords: [
+    "football transfers",
+    "transfer fees",
+    "recent football transfers",
+    "football player stats",
+  ],
+  alternates: {
+    canonical: "/transfers",
+  },
+  openGraph: {
+    title: "Recent Football Transfers - Fees & Moves",
+    description: "The latest football transfers, fees and loan moves.",
+    type: "website",
+    url: "/transfers",
+    locale: siteConfig.ogLocale,
+  },
+}
+
+function ClubName({ name }: { name: string }) {
+  const team = getTeamByName(name)
+
+  return team ? (
+    <Link
+      href={`/teams/${team.slug}`}
+      className="transition-colors hover:text-foreground"
+    >
+      {name}
+    </Link>
+  ) : (
+    name
+  )
+}
+
+export default async function TransfersPage() {
+  const recentTransfers = getRecentTransfers(RECENT_TRANSFER_LIMIT)
+  const playerNames = new Map(
+    (await getPlayerRepository().list()).map((player) => [
+      player.slug,
+      player.name,
+    ])
+  )
+
+  return (
+    <>
+      <SiteHeader />
+      <main>
+        {/* Breadcrumb Navigation - improves UX and SEO */}
+        <nav
+          aria-label="Breadcrumb"
+          className="border-b border-border bg-muted/30"
+        >
+          <div className="mx-auto max-w-6xl px-4 py-3">
+            <ol className="flex items-center gap-2 text-sm text-muted-foreground">
+              <li>
+                <Link
+                  href="/"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Home
+                </Link>
+              </li>
+              <li aria-hidden="true">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="h-3.5 w-3.5"
+                >
+                  <path d="m9 18 6-6-6-6" />
+                </svg>
+              </li>
+              <li>
+                <span className="font-medium text-foreground">Transfers</span>
+              </li>
+            </ol>
+          </div>
+        </nav>
+
+        <section className="py-10 md:py-16">
+          <div className="mx-auto max-w-6xl px-4">
+            <h1 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl lg:text-5xl">
+              Recent Transfers
+            </h1>
+            <p className="mt-2 text-lg text-muted-foreground">
+              Every move between clubs in our database, newest first.
+            </p>
+
+            <div className="mt-8 rounded-lg border border-border bg-card">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Player</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Fee</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recentTransfers.map((transfer) => (
+                    <TableRow key={`${transfer.player}-${transfer.date}`}>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        <time dateTime={transfer.date}>
+                          {formatTransferDate(transfer)}
+                        </time>
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        <Link
+                          href={`/players/${transfer.player}`}
+                          className="text-foreground transition-colors hover:text-primary"
+                        >
+                          {playerNames.get(transfer.player) ?? transfer.player}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        <ClubName name={transfer.from} />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        <ClubName name={transfer.to} />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {transferTypeLabels[transfer.type]}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {formatTransferFee(transfer)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </section>
+      </main>
+      <SiteFooter />
+    </>
+  )
+}
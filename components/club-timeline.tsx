@@ -0,0 +1,88 @@
+import Link from "next/link"
+import { getTeamByName } from "@/data/teams"
+import {
+  formatTransferDate,
+  formatTransferFee,
+  transferTypeLabels,
+  type ClubSpell,
+} from "@/data/transfers"
+
+/**
+ * ClubTimeline - a player's clubs as a vertical timeline, oldest first.
+ * Each spell shows its seasons and output, plus the transfer(s) that started
+ * it. Clubs with a hub page link to /teams/[slug].
+ */
+export function ClubTimeline({
+  spells,
+  currentClub,
+}: {
+  spells: ClubSpell[]
+  currentClub: string
+}) {
+  return (
+    <ol className="relative ml-3 border-l border-border">
+      {spells.map((spell, index) => {
+        const team = getTeamByName(spell.club)
+        const isCurrent =
+          index === spells.length - 1 && spell.club === currentClub
+
+        return (
+          <li
+            key={`${spell.club}-${spell.firstSeason}`}
+            className="mb-8 ml-6 last:mb-0"
+          >
+            <span
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-background ${isCurrent ? "bg-primary" : "bg-muted-foreground"}`}
+              aria-hidden="true"
+            />
+            <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+              <h3 className="text-lg font-semibold text-foreground">
+                {team ? (
+                  <Link
+                    href={`/teams/${team.slug}`}
+                    className="transition-colors hover:text-primary"
+                  >
+                    {spell.club}
+                  </Link>
+                ) : (
+                  spell.club
+                )}
+              </h3>
+              <span className="text-sm text-muted-foreground">
+                {spell.firstSeason === spell.lastSeason
+                  ? spell.firstSeason
+                  : `${spell.firstSeason} – ${isCurrent ? "present" : spell.lastSeason}`}
+              </span>
+            </div>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {spell.appearances} apps · {spell.goals} goals · {spell.assists}{" "}
+              assists
+            </p>
+            {spell.transfers.length > 0 && (
+              <div className="mt-2 flex flex-col items-start gap-1.5">
+                {spell.transfers.map((transfer) => (
+                  <p
+                    key={transfer.date}
+                    className="inline-flex flex-wrap items-center gap-2 rounded-md bg-muted/60 px-2.5 py-1 text-xs text-muted-foreground"
+                  >
+                    <span>
+                      {transferTypeLabels[transfer.type]} from {transfer.from}
+                    </span>
+                    <span aria-hidden="true">·</span>
+                    <span className="font-semibold text-foreground">
+                      {formatTransferFee(transfer)}
+                    </span>
+                    <span aria-hidden="true">·</span>
+                    <time dateTime={transfer.date}>
+                      {formatTransferDate(transfer)}
+                    </time>
+                  </p>
+                ))}
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,75 @@
+import { Progress } from "@/components/ui/progress"
+import {
+  formatOrdinal,
+  MIN_PEER_GROUP_SIZE,
+  PERCENTILE_MIN_MINUTES,
+  type PercentileRank,
+} from "@/lib/percentiles"
+
+const unrankedLabels: Record<
+  NonNullable<PercentileRank["unrankedReason"]>,
+  string
+> = {
+  "no-value": "Not tracked",
+  "below-minimum": `Under ${PERCENTILE_MIN_MINUTES.toLocaleString()} min`,
+  "few-peers": `Fewer than ${MIN_PEER_GROUP_SIZE} peers`,
+}
+
+/**
+ * PercentileBars - one horizontal bar per profile metric, showing where the
+ * player ranks among positional peers. Every row states how many peers it
+ * was ranked against; rows the player can't be ranked on say why.
+ */
+export function PercentileBars({
+  ranks,
+  peerGroupLabel,
+}: {
+  ranks: PercentileRank[]
+  peerGroupLabel: string
+}) {
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 md:p-6">
+      <ul className="flex flex-col gap-4">
+        {ranks.map((rank) => (
+          <li
+            key={rank.key}
+            className="grid items-center gap-2 sm:grid-cols-[14rem_1fr_9rem] sm:gap-4"
+          >
+            <div className="flex items-baseline justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">{rank.label}</span>
+              <span className="font-semibold text-foreground">
+                {rank.display}
+              </span>
+            </div>
+            <Progress
+              value={rank.percentile}
+              aria-label={`${rank.label} percentile`}
+              className={`h-2.5 ${rank.percentile === null ? "opacity-40" : ""}`}
+            />
+            <div className="text-sm sm:text-right">
+              {rank.percentile === null ? (
+                <span className="text-muted-foreground">
+                  {rank.unrankedReason && unrankedLabels[rank.unrankedReason]}
+                </span>
+              ) : (
+                <span className="font-semibold text-foreground">
+                  {formatOrdinal(rank.percentile)}
+                </span>
+              )}{" "}
+              <span className="text-xs text-muted-foreground">
+                of {rank.peerCount}
+              </span>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-6 text-xs text-muted-foreground">
+        Percentiles compare {peerGroupLabel.toLowerCase()} with at least{" "}
+        {PERCENTILE_MIN_MINUTES.toLocaleString()} minutes behind each stat;
+        &ldquo;of N&rdquo; is the number of qualifying players, this one
+        included. Fewer than {MIN_PEER_GROUP_SIZE} qualifying players are not
+        ranked.
+      </p>
+    </div>
+  )
+}
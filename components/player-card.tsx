@@ -1,6 +1,8 @@
 import Image from "next/image"
 import Link from "next/link"
 import type { Player } from "@/data/players"
+import { getNationHref } from "@/data/nations"
+import { getPositionHref, getPositionLabel } from "@/data/positions"
 
 /**
  * PlayerCard component - displays a player summary in a card format.
@@ -11,32 +13,43 @@ import type { Player } from "@/data/players"
  * - Passes link equity to individual player pages
  * - Uses descriptive anchor text (player name) for context
  * - Clean URL structure: /players/[slug]
+ *
+ * The whole card is clickable through a stretched link on the player name,
+ * which leaves the position badge and nationality free to be their own links
+ * to /positions/[slug] and /nations/[slug] (anchors can't be nested).
  */
 export function PlayerCard({ player }: { player: Player }) {
+  const positionLabel = getPositionLabel(player.position)
+
   return (
-    <Link
-      href={`/players/${player.slug}`}
-      className="group block overflow-hidden rounded-lg border border-border bg-card transition-all hover:border-primary/30 hover:shadow-lg"
-    >
+    <article className="group relative overflow-hidden rounded-lg border border-border bg-card transition-all hover:border-primary/30 hover:shadow-lg">
       <div className="relative aspect-[4/5] overflow-hidden bg-muted">
         <Image
           src={player.image || "/placeholder.svg"}
-          alt={`${player.name} - ${player.team} ${player.position}`}
+          alt={`${player.name} - ${player.team} ${positionLabel}`}
           fill
           className="object-cover transition-transform duration-500 group-hover:scale-105"
           sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
         />
         {/* Position badge */}
-        <div className="absolute left-3 top-3 rounded-md bg-primary px-2.5 py-1 text-xs font-semibold text-primary-foreground">
-          {player.position}
-        </div>
+        <Link
+          href={getPositionHref(player.position)}
+          className="absolute left-3 top-3 z-10 rounded-md bg-primary px-2.5 py-1 text-xs font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+        >
+          {positionLabel}
+        </Link>
       </div>
 
       <div className="flex flex-col gap-3 p-4">
         {/* Player name and team */}
         <div>
           <h3 className="text-lg font-bold tracking-tight text-card-foreground group-hover:text-primary transition-colors">
-            {player.name}
+            <Link
+              href={`/players/${player.slug}`}
+              className="after:absolute after:inset-0"
+            >
+              {player.name}
+            </Link>
           </h3>
           <p className="text-sm text-muted-foreground">{player.team}</p>
         </div>
@@ -66,7 +79,10 @@ export function PlayerCard({ player }: { player: Player }) {
         </div>
 
         {/* Nationality */}
-        <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+        <Link
+          href={getNationHref(player.nationality)}
+          className="relative z-10 flex w-fit items-center gap-1.5 text-sm text-muted-foreground transition-colors hover:text-foreground"
+        >
           <svg
             xmlns="http://www.w3.org/2000/svg"
             viewBox="0 0 24 24"
@@ -82,8 +98,8 @@ export function PlayerCard({ player }: { player: Player }) {
             <circle cx="12" cy="10" r="3" />
           </svg>
           {player.nationality}
-        </div>
+        </Link>
       </div>
-    </Link>
+    </article>
   )
 }
@@ -0,0 +1,174 @@
+"use client"
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts"
+import type { ClubSummary, SeasonSummary } from "@/data/players"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+
+/**
+ * Series colours per theme. ChartContainer turns each key into a
+ * `--color-<key>` CSS variable, switching value under the `.dark` class.
+ */
+const chartConfig = {
+  goals: {
+    label: "Goals",
+    theme: { light: "hsl(145 60% 36%)", dark: "hsl(145 60% 48%)" },
+  },
+  assists: {
+    label: "Assists",
+    theme: { light: "hsl(35 85% 45%)", dark: "hsl(40 80% 60%)" },
+  },
+  cumulativeGoals: {
+    label: "Career Goals",
+    theme: { light: "hsl(200 55% 42%)", dark: "hsl(200 50% 58%)" },
+  },
+} satisfies ChartConfig
+
+interface PlayerCareerChartsProps {
+  playerName: string
+  seasons: SeasonSummary[]
+  clubs: ClubSummary[]
+}
+
+/**
+ * PlayerCareerCharts - career trajectory on the player profile.
+ *
+ * Goals and assists per season, the running career goal total, and goals plus
+ * assists stacked per club. The season table below the charts carries the
+ * same numbers as text, so nothing here is needed for crawlers.
+ */
+export function PlayerCareerCharts({
+  playerName,
+  seasons,
+  clubs,
+}: PlayerCareerChartsProps) {
+  let runningTotal = 0
+  const cumulative = seasons.map((season) => {
+    runningTotal += season.goals
+    return { season: season.season, cumulativeGoals: runningTotal }
+  })
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <figure className="rounded-lg border border-border bg-card p-4">
+        <figcaption className="mb-4 text-sm font-semibold text-foreground">
+          Goals & Assists per Season
+        </figcaption>
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto h-64 w-full"
+          role="img"
+          aria-label={`${playerName} goals and assists per season`}
+        >
+          <LineChart data={seasons} margin={{ left: -20, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="season"
+              tickLine={false}
+              axisLine={false}
+              minTickGap={16}
+            />
+            <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Line
+              dataKey="goals"
+              type="monotone"
+              stroke="var(--color-goals)"
+              strokeWidth={2}
+              dot={false}
+            />
+            <Line
+              dataKey="assists"
+              type="monotone"
+              stroke="var(--color-assists)"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      </figure>
+
+      <figure className="rounded-lg border border-border bg-card p-4">
+        <figcaption className="mb-4 text-sm font-semibold text-foreground">
+          Cumulative Career Goals
+        </figcaption>
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto h-64 w-full"
+          role="img"
+          aria-label={`${playerName} cumulative career goals by season`}
+        >
+          <LineChart data={cumulative} margin={{ left: -12, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="season"
+              tickLine={false}
+              axisLine={false}
+              minTickGap={16}
+            />
+            <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line
+              dataKey="cumulativeGoals"
+              type="monotone"
+              stroke="var(--color-cumulativeGoals)"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      </figure>
+
+      <figure className="rounded-lg border border-border bg-card p-4 lg:col-span-2">
+        <figcaption className="mb-4 text-sm font-semibold text-foreground">
+          Goals & Assists by Club
+        </figcaption>
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto h-72 w-full"
+          role="img"
+          aria-label={`${playerName} goals and assists by club`}
+        >
+          <BarChart data={clubs} margin={{ left: -12, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="club"
+              tickLine={false}
+              axisLine={false}
+              interval={0}
+            />
+            <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar
+              dataKey="goals"
+              stackId="contributions"
+              fill="var(--color-goals)"
+            />
+            <Bar
+              dataKey="assists"
+              stackId="contributions"
+              fill="var(--color-assists)"
+              radius={[4, 4, 0, 0]}
+            />
+          </BarChart>
+        </ChartContainer>
+      </figure>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import Link from "next/link"
+import type { Player } from "@/data/players"
+import type { Page } from "@/data/repository"
+import { getPaginationItems, getPlayerIndexHref } from "@/lib/player-index"
+import { PlayerCard } from "@/components/player-card"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+
+/**
+ * PlayerDirectory - one page of the /players index.
+ *
+ * Shared by /players and /players/page/[page]. Besides the visible
+ * pagination bar it renders <link rel="prev"> and <link rel="next">, which
+ * React hoists into the document head, so crawlers can walk the whole index.
+ */
+export function PlayerDirectory({ page }: { page: Page<Player> }) {
+  const first = (page.page - 1) * page.pageSize + 1
+  const last = first + page.items.length - 1
+  const previousHref =
+    page.page > 1 ? getPlayerIndexHref(page.page - 1) : undefined
+  const nextHref =
+    page.page < page.pageCount ? getPlayerIndexHref(page.page + 1) : undefined
+
+  return (
+    <>
+      {previousHref && <link rel="prev" href={previousHref} />}
+      {nextHref && <link rel="next" href={nextHref} />}
+
+      {/* Breadcrumb Navigation - improves UX and SEO */}
+      <nav
+        aria-label="Breadcrumb"
+        className="border-b border-border bg-muted/30"
+      >
+        <div className="mx-auto max-w-6xl px-4 py-3">
+          <ol className="flex items-center gap-2 text-sm text-muted-foreground">
+            <li>
+              <Link
+                href="/"
+                className="transition-colors hover:text-foreground"
+              >
+                Home
+              </Link>
+            </li>
+            <li aria-hidden="true">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                className="h-3.5 w-3.5"
+              >
+                <path d="m9 18 6-6-6-6" />
+              </svg>
+            </li>
+            <li>
+              <span className="font-medium text-foreground">Players</span>
+            </li>
+          </ol>
+        </div>
+      </nav>
+
+      <section className="py-10 md:py-16">
+        <div className="mx-auto max-w-6xl px-4">
+          <h1 className="text-balance text-3xl font-bold tracking-tight text-foreground md:text-4xl lg:text-5xl">
+            All Football Players
+          </h1>
+          <p className="mt-2 text-lg text-muted-foreground">
+            {page.total === 0
+              ? "No players yet."
+              : `Showing ${first}–${last} of ${page.total} players${page.pageCount > 1 ? ` (page ${page.page} of ${page.pageCount})` : ""}.`}
+          </p>
+
+          <div className="mt-8 grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {page.items.map((player) => (
+              <PlayerCard key={player.slug} player={player} />
+            ))}
+          </div>
+
+          {page.pageCount > 1 && (
+            <Pagination className="mt-10">
+              <PaginationContent>
+                {previousHref && (
+                  <PaginationItem>
+                    <PaginationPrevious href={previousHref} rel="prev" />
+                  </PaginationItem>
+                )}
+                {getPaginationItems(page.page, page.pageCount).map(
+                  (item, index) =>
+                    item === "ellipsis" ? (
+                      <PaginationItem key={`ellipsis-${index}`}>
+                        <PaginationEllipsis />
+                      </PaginationItem>
+                    ) : (
+                      <PaginationItem key={item}>
+                        <PaginationLink
+                          href={getPlayerIndexHref(item)}
+                          isActive={item === page.page}
+                        >
+                          {item}
+                        </PaginationLink>
+                      </PaginationItem>
+                    )
+                )}
+                {nextHref && (
+                  <PaginationItem>
+                    <PaginationNext href={nextHref} rel="next" />
+                  </PaginationItem>
+                )}
+              </PaginationContent>
+            </Pagination>
+          )}
+        </div>
+      </section>
+    </>
+  )
+}
@@ -0,0 +1,214 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { usePathname, useSearchParams } from "next/navigation"
+import {
+  DEFAULT_PLAYER_GRID_SORT,
+  filterPlayerGridItems,
+  parsePlayerGridParams,
+  playerGridSortOptions,
+  type PlayerGridItem,
+} from "@/lib/player-grid"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+
+export interface FilterOption {
+  value: string
+  label: string
+}
+
+interface PlayerGridProps {
+  items: PlayerGridItem[]
+  /** Server-rendered PlayerCard for each item, keyed by slug. */
+  cards: Record<string, ReactNode>
+  positions: FilterOption[]
+  nationalities: FilterOption[]
+  teams: FilterOption[]
+}
+
+// Radix Select can't use "" as an item value, so "all" clears a filter
+const ALL = "all"
+
+/**
+ * PlayerGrid - the homepage player grid with a filter, sort and search bar.
+ *
+ * All state lives in the query string (?q=&position=&nationality=&team=&sort=)
+ * so any filtered view is a shareable, crawlable URL; the page applies the
+ * same filters on the server (see lib/player-grid.ts). The cards themselves
+ * are rendered on the server and only shown, hidden and reordered here, so
+ * the grid works within the players the page passed in (PLAYER_GRID_SIZE).
+ * Changes update the URL with history.replaceState, which keeps
+ * useSearchParams in sync without a server round trip per keystroke.
+ */
+export function PlayerGrid({
+  items,
+  cards,
+  positions,
+  nationalities,
+  teams,
+}: PlayerGridProps) {
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const state = parsePlayerGridParams(Object.fromEntries(searchParams))
+  const position = state.position ?? ALL
+  const nationality = state.nationality ?? ALL
+  const team = state.team ?? ALL
+
+  // Local state so typing stays responsive; re-synced whenever the URL's
+  // query changes from outside the input, e.g. on back/forward
+  const [query, setQuery] = useState(state.query)
+  const [syncedQuery, setSyncedQuery] = useState(state.query)
+  if (state.query !== syncedQuery) {
+    setSyncedQuery(state.query)
+    setQuery(state.query)
+  }
+
+  function replaceParams(params: URLSearchParams) {
+    const search = params.toString()
+    window.history.replaceState(
+      null,
+      "",
+      search ? `${pathname}?${search}` : pathname
+    )
+  }
+
+  function updateParam(key: string, value: string, defaultValue: string) {
+    const params = new URLSearchParams(searchParams.toString())
+    if (value === defaultValue || value === "") {
+      params.delete(key)
+    } else {
+      params.set(key, value)
+    }
+    replaceParams(params)
+  }
+
+  const visible = filterPlayerGridItems(items, { ...state, query })
+
+  const isFiltered =
+    query !== "" || position !== ALL || nationality !== ALL || team !== ALL
+
+  const filters = [
+    {
+      key: "position",
+      label: "Position",
+      allLabel: "All Positions",
+      value: position,
+      options: positions,
+    },
+    {
+      key: "nationality",
+      label: "Nationality",
+      allLabel: "All Nationalities",
+      value: nationality,
+      options: nationalities,
+    },
+    {
+      key: "team",
+      label: "Team",
+      allLabel: "All Teams",
+      value: team,
+      options: teams,
+    },
+  ]
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* Filter bar */}
+      <div className="flex flex-col gap-4 rounded-lg border border-border bg-card p-4">
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <Input
+            type="search"
+            placeholder="Search players..."
+            aria-label="Search players by name"
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value)
+              setSyncedQuery(event.target.value)
+              updateParam("q", event.target.value, "")
+            }}
+          />
+          {filters.map((filter) => (
+            <Select
+              key={filter.key}
+              value={filter.value}
+              onValueChange={(value) => updateParam(filter.key, value, ALL)}
+            >
+              <SelectTrigger
+                aria-label={`Filter by ${filter.label.toLowerCase()}`}
+              >
+                <SelectValue placeholder={filter.label} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{filter.allLabel}</SelectItem>
+                {filter.options.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Sort by</span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={state.sort}
+              // Deselecting the active item would leave no sort; ignore it
+              onValueChange={(value) =>
+                value && updateParam("sort", value, DEFAULT_PLAYER_GRID_SORT)
+              }
+            >
+              {playerGridSortOptions.map((option) => (
+                <ToggleGroupItem key={option.value} value={option.value}>
+                  {option.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          <p className="text-sm text-muted-foreground" aria-live="polite">
+            Showing {visible.length} of {items.length} players
+          </p>
+        </div>
+      </div>
+
+      {visible.length > 0 ? (
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {visible.map((item) => (
+            <div key={item.slug}>{cards[item.slug]}</div>
+          ))}
+        </div>
+      ) : (
+        <div className="rounded-lg border border-dashed border-border p-10 text-center">
+          <p className="text-muted-foreground">
+            No players match these filters.
+          </p>
+          {isFiltered && (
+            <button
+              type="button"
+              onClick={() => {
+                setQuery("")
+                setSyncedQuery("")
+                replaceParams(new URLSearchParams())
+              }}
+              className="mt-3 text-sm font-medium text-primary hover:underline"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { PolarAngleAxis, PolarGrid, Radar, RadarChart } from "recharts"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+
+export interface RadarMetric {
+  label: string
+  first: number
+  second: number
+  decimals: number
+}
+
+interface PlayerRadarChartProps {
+  firstName: string
+  secondName: string
+  metrics: RadarMetric[]
+}
+
+/**
+ * PlayerRadarChart - overlays two players' profiles on one radar.
+ *
+ * Metrics live on very different scales (900 goals vs 0.8 goals per app), so
+ * each axis is scaled to the better of the two players = 100. The tooltip
+ * shows the real numbers.
+ */
+export function PlayerRadarChart({
+  firstName,
+  secondName,
+  metrics,
+}: PlayerRadarChartProps) {
+  const chartConfig = {
+    first: { label: firstName, color: "hsl(var(--chart-1))" },
+    second: { label: secondName, color: "hsl(var(--chart-2))" },
+  } satisfies ChartConfig
+
+  const data = metrics.map((metric) => {
+    const max = Math.max(metric.first, metric.second)
+
+    return {
+      metric: metric.label,
+      first: max > 0 ? (metric.first / max) * 100 : 0,
+      second: max > 0 ? (metric.second / max) * 100 : 0,
+      firstDisplay: metric.first.toFixed(metric.decimals),
+      secondDisplay: metric.second.toFixed(metric.decimals),
+    }
+  })
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className="mx-auto aspect-square max-h-[420px]"
+    >
+      <RadarChart data={data}>
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              formatter={(_value, name, item) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">
+                    {chartConfig[name as keyof typeof chartConfig].label}
+                  </span>
+                  <span className="font-mono font-medium tabular-nums text-foreground">
+                    {item.payload[`${name}Display`]}
+                  </span>
+                </div>
+              )}
+            />
+          }
+        />
+        <PolarGrid />
+        <PolarAngleAxis dataKey="metric" />
+        <Radar
+          dataKey="first"
+          fill="var(--color-first)"
+          fillOpacity={0.35}
+          stroke="var(--color-first)"
+        />
+        <Radar
+          dataKey="second"
+          fill="var(--color-second)"
+          fillOpacity={0.35}
+          stroke="var(--color-second)"
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+      </RadarChart>
+    </ChartContainer>
+  )
+}
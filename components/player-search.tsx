@@ -0,0 +1,152 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import type { PlayerSearchEntry } from "@/lib/search"
+
+/** Pause in typing before the palette asks /api/search for matches. */
+const SEARCH_DEBOUNCE_MS = 150
+
+/**
+ * PlayerSearch - the Cmd+K / Ctrl+K command palette in the site header.
+ *
+ * Matches player names, teams and nationalities with the site search's
+ * scoring (lib/search.ts), prefixes and misspelled names included. Results
+ * are ranked by /api/search, so only the matches are downloaded, never the
+ * whole roster.
+ * Arrow keys move through the results and Enter opens the player's page.
+ */
+export function PlayerSearch() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const [players, setPlayers] = useState<PlayerSearchEntry[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    function onKeyDown(event: KeyboardEvent) {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setOpen((current) => !current)
+      }
+    }
+
+    document.addEventListener("keydown", onKeyDown)
+    return () => document.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  useEffect(() => {
+    const query = search.trim()
+    if (query === "") {
+      setPlayers([])
+      setLoading(false)
+      return
+    }
+
+    // Aborting on the next keystroke keeps a slow, stale response from
+    // overwriting newer results
+    const controller = new AbortController()
+    setLoading(true)
+    const timeout = setTimeout(() => {
+      fetch(`/api/search?q=${encodeURIComponent(query)}`, {
+        signal: controller.signal,
+      })
+        .then((response) => (response.ok ? response.json() : { data: [] }))
+        .then((body: { data: PlayerSearchEntry[] }) => {
+          setPlayers(body.data)
+          setLoading(false)
+        })
+        .catch((error: unknown) => {
+          if (error instanceof DOMException && error.name === "AbortError") {
+            return
+          }
+          setPlayers([])
+          setLoading(false)
+        })
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [search])
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        aria-label="Search players"
+        className="flex items-center gap-2 rounded-md border border-border bg-background px-3 py-1.5 text-sm text-muted-foreground transition-colors hover:text-foreground"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="h-4 w-4"
+          aria-hidden="true"
+        >
+          <circle cx="11" cy="11" r="8" />
+          <path d="m21 21-4.3-4.3" />
+        </svg>
+        <span className="hidden sm:inline">Search players</span>
+        <kbd className="pointer-events-none hidden rounded border border-border bg-muted px-1.5 font-mono text-[10px] font-medium sm:inline">
+          ⌘K
+        </kbd>
+      </button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={setOpen}
+        title="Search players"
+        description="Search by player name, team or nationality"
+        // The API has already matched and ranked the results
+        shouldFilter={false}
+      >
+        <CommandInput
+          placeholder="Search by name, team or nationality..."
+          value={search}
+          onValueChange={setSearch}
+        />
+        <CommandList>
+          <CommandEmpty>
+            {search.trim() === ""
+              ? "Type a player, team or nationality."
+              : loading
+                ? "Searching..."
+                : "No players found."}
+          </CommandEmpty>
+          <CommandGroup heading="Players">
+            {players.map((player) => (
+              <CommandItem
+                key={player.slug}
+                value={player.slug}
+                onSelect={() => {
+                  setOpen(false)
+                  router.push(`/players/${player.slug}`)
+                }}
+              >
+                <span className="font-medium">{player.name}</span>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {player.team} · {player.nationality} · {player.positionLabel}
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
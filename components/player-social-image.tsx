@@ -0,0 +1,103 @@
+import { ImageResponse } from "next/og"
+import type { Player } from "@/data/players"
+import { getPositionLabel } from "@/data/positions"
+import { siteConfig } from "@/lib/site"
+
+/**
+ * Social card size recommended by both Open Graph and Twitter
+ * (summary_large_image): 1200x630, a 1.91:1 ratio.
+ */
+export const socialImageSize = {
+  width: 1200,
+  height: 630,
+}
+
+/**
+ * Renders the branded share card for a player page.
+ *
+ * Used by both opengraph-image.tsx and twitter-image.tsx under
+ * app/players/[slug]/ so the two cards always match. Rendered with Satori,
+ * which only supports inline styles and flexbox layouts.
+ */
+export function renderPlayerSocialImage(player: Player) {
+  const stats = [
+    { label: "Goals", value: player.goals },
+    { label: "Assists", value: player.assists },
+    { label: "Apps", value: player.appearances },
+  ]
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: "64px 72px",
+        background:
+          "linear-gradient(135deg, hsl(145 60% 22%) 0%, hsl(0 0% 4%) 70%)",
+        color: "hsl(40 6% 90%)",
+      }}
+    >
+      {/* Brand */}
+      <div style={{ display: "flex", alignItems: "center", gap: 16 }}>
+        <div
+          style={{
+            width: 48,
+            height: 48,
+            borderRadius: 10,
+            background: "hsl(145 60% 40%)",
+            display: "flex",
+          }}
+        />
+        <span style={{ fontSize: 32, fontWeight: 700 }}>{siteConfig.name}</span>
+      </div>
+
+      {/* Player */}
+      <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+        <span
+          style={{
+            fontSize: 28,
+            color: "hsl(145 60% 55%)",
+            textTransform: "uppercase",
+            letterSpacing: 2,
+          }}
+        >
+          {getPositionLabel(player.position)}
+        </span>
+        <span style={{ fontSize: 80, fontWeight: 700, lineHeight: 1.05 }}>
+          {player.name}
+        </span>
+        <span style={{ fontSize: 36, color: "hsl(0 0% 65%)" }}>
+          {player.team}
+        </span>
+      </div>
+
+      {/* Career stats */}
+      <div style={{ display: "flex", gap: 24 }}>
+        {stats.map((stat) => (
+          <div
+            key={stat.label}
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              padding: "20px 32px",
+              borderRadius: 16,
+              background: "rgba(255, 255, 255, 0.08)",
+              minWidth: 220,
+            }}
+          >
+            <span style={{ fontSize: 64, fontWeight: 700 }}>
+              {stat.value.toLocaleString("en-US")}
+            </span>
+            <span style={{ fontSize: 26, color: "hsl(0 0% 65%)" }}>
+              {stat.label}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>,
+    socialImageSize
+  )
+}
@@ -1,5 +1,9 @@
 import Link from "next/link"
-import { players } from "@/data/players"
+import { siteConfig } from "@/lib/site"
+import { getPlayerRepository } from "@/data/repository"
+
+/** How many players each footer list links to. */
+const FOOTER_LIST_SIZE = 5
 
 /**
  * SiteFooter component - site-wide footer with internal links.
@@ -8,11 +12,24 @@ import { players } from "@/data/players"
  * 2. Distributing link equity (PageRank) across the site
  * 3. Improving discoverability of deeper pages
  */
-export function SiteFooter() {
+export async function SiteFooter() {
+  const repository = getPlayerRepository()
+
+  // A curated subset rather than every player, so the footer stays the same
+  // size however big the dataset gets; /players links to the rest
+  const [topScorers, recentlyUpdated] = await Promise.all([
+    repository.paginate({ page: 1, pageSize: FOOTER_LIST_SIZE, sort: "goals" }),
+    repository.paginate({
+      page: 1,
+      pageSize: FOOTER_LIST_SIZE,
+      sort: "updatedAt",
+    }),
+  ])
+
   return (
     <footer className="border-t border-border bg-muted/50">
       <div className="mx-auto max-w-6xl px-4 py-12">
-        <div className="grid gap-8 md:grid-cols-3">
+        <div className="grid gap-8 md:grid-cols-4">
           {/* Brand */}
           <div className="flex flex-col gap-3">
             <Link href="/" className="flex items-center gap-2">
@@ -34,7 +51,7 @@ export function SiteFooter() {
                 </svg>
               </div>
               <span className="text-lg font-bold tracking-tight text-foreground">
-                FootballStats
+                {siteConfig.name}
               </span>
             </Link>
             <p className="text-sm leading-relaxed text-muted-foreground">
@@ -46,10 +63,28 @@ export function SiteFooter() {
           {/* Player Links - critical for internal linking SEO strategy */}
           <div>
             <h3 className="mb-3 text-sm font-semibold uppercase tracking-wider text-foreground">
-              Player Profiles
+              Top Scorers
+            </h3>
+            <ul className="flex flex-col gap-2">
+              {topScorers.items.map((player) => (
+                <li key={player.slug}>
+                  <Link
+                    href={`/players/${player.slug}`}
+                    className="text-sm text-muted-foreground transition-colors hover:text-foreground"
+                  >
+                    {player.name}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <h3 className="mb-3 text-sm font-semibold uppercase tracking-wider text-foreground">
+              Recently Updated
             </h3>
             <ul className="flex flex-col gap-2">
-              {players.map((player) => (
+              {recentlyUpdated.items.map((player) => (
                 <li key={player.slug}>
                   <Link
                     href={`/players/${player.slug}`}
@@ -78,19 +113,43 @@ export function SiteFooter() {
               </li>
               <li>
                 <Link
-                  href="/#players"
+                  href="/players"
                   className="text-sm text-muted-foreground transition-colors hover:text-foreground"
                 >
                   All Players
                 </Link>
               </li>
+              <li>
+                <Link
+                  href="/#teams"
+                  className="text-sm text-muted-foreground transition-colors hover:text-foreground"
+                >
+                  All Teams
+                </Link>
+              </li>
+              <li>
+                <Link
+                  href="/leaderboards/goals"
+                  className="text-sm text-muted-foreground transition-colors hover:text-foreground"
+                >
+                  Leaderboards
+                </Link>
+              </li>
+              <li>
+                <Link
+                  href="/transfers"
+                  className="text-sm text-muted-foreground transition-colors hover:text-foreground"
+                >
+                  Transfers
+                </Link>
+              </li>
             </ul>
           </div>
         </div>
 
         <div className="mt-8 border-t border-border pt-8 text-center">
           <p className="text-sm text-muted-foreground">
-            {"FootballStats. Football player stats and soccer player profiles."}
+            {`${siteConfig.name}. Football player stats and soccer player profiles.`}
           </p>
         </div>
       </div>
@@ -1,9 +1,12 @@
 import Link from "next/link"
+import { siteConfig } from "@/lib/site"
+import { PlayerSearch } from "@/components/player-search"
 
 /**
  * SiteHeader component - consistent navigation across all pages.
  * Uses semantic <header> and <nav> elements for accessibility and SEO.
  * Internal links help search engine crawlers discover all pages on the site.
+ * Also hosts the Cmd+K player search palette.
  */
 export function SiteHeader() {
   return (
@@ -28,11 +31,14 @@ export function SiteHeader() {
             </svg>
           </div>
           <span className="text-lg font-bold tracking-tight text-foreground">
-            FootballStats
+            {siteConfig.name}
           </span>
         </Link>
         <nav aria-label="Main navigation">
           <ul className="flex items-center gap-6">
+            <li>
+              <PlayerSearch />
+            </li>
             <li>
               <Link
                 href="/"
@@ -43,7 +49,7 @@ export function SiteHeader() {
             </li>
             <li>
               <Link
-                href="/#players"
+                href="/players"
                 className="text-sm font-medium text-muted-foreground transition-colors hover:text-foreground"
               >
                 Players
@@ -0,0 +1,110 @@
+import type { Player } from "@/data/players"
+import { getPositionGroup } from "@/data/positions"
+import { getPlayerRepository } from "@/data/repository"
+import { goalContributions } from "@/lib/stats"
+
+/**
+ * Head-to-Head Comparisons - /compare/[a]-vs-[b]
+ *
+ * Every pair of players gets exactly one indexable URL. The two slugs are
+ * always ordered alphabetically, so /compare/lionel-messi-vs-cristiano-ronaldo
+ * redirects to /compare/cristiano-ronaldo-vs-lionel-messi instead of competing
+ * with it for the same "Messi vs Ronaldo" query.
+ *
+ * Pairs grow quadratically with the roster, so only featured pairs (see
+ * getFeaturedRivals) are prebuilt, listed in the sitemap and linked from
+ * profiles. Every other pair still renders on demand.
+ */
+const SEPARATOR = "-vs-"
+
+/** How many featured comparisons each player gets. */
+export const FEATURED_RIVAL_LIMIT = 6
+
+export interface Comparison {
+  slug: string
+  players: [Player, Player]
+}
+
+/**
+ * Canonical comparison slug for two players, regardless of argument order.
+ */
+export function getComparisonSlug(a: string, b: string): string {
+  const [first, second] = [a, b].sort()
+  return `${first}${SEPARATOR}${second}`
+}
+
+/**
+ * Splits "a-vs-b" into its two player slugs. Returns undefined for anything
+ * that isn't exactly two distinct slugs joined by "-vs-".
+ */
+export function parseComparisonSlug(
+  pair: string
+): [string, string] | undefined {
+  const parts = pair.split(SEPARATOR)
+
+  if (parts.length !== 2 || !parts[0] || !parts[1] || parts[0] === parts[1]) {
+    return undefined
+  }
+
+  return [parts[0], parts[1]]
+}
+
+/**
+ * Resolves a comparison slug to its two players, in the order they appear in
+ * the URL. Returns undefined if either player doesn't exist.
+ */
+export async function getComparison(
+  pair: string
+): Promise<Comparison | undefined> {
+  const slugs = parseComparisonSlug(pair)
+  if (!slugs) return undefined
+
+  const repository = getPlayerRepository()
+  const [first, second] = await Promise.all([
+    repository.getBySlug(slugs[0]),
+    repository.getBySlug(slugs[1]),
+  ])
+  if (!first || !second) return undefined
+
+  return { slug: pair, players: [first, second] }
+}
+
+/**
+ * The players most worth comparing `player` with: teammates first, then
+ * players in the same position group, each by goal contributions.
+ */
+export function getFeaturedRivals(
+  player: Player,
+  allPlayers: Player[],
+  limit = FEATURED_RIVAL_LIMIT
+): Player[] {
+  const group = getPositionGroup(player.position)
+  const isTeammate = (other: Player) => other.team === player.team
+
+  return allPlayers
+    .filter(
+      (other) =>
+        other.slug !== player.slug &&
+        (isTeammate(other) || getPositionGroup(other.position) === group)
+    )
+    .sort(
+      (a, b) =>
+        Number(isTeammate(b)) - Number(isTeammate(a)) ||
+        goalContributions(b) - goalContributions(a)
+    )
+    .slice(0, limit)
+}
+
+/**
+ * Canonical slugs of every featured pair, each listed once. At most
+ * FEATURED_RIVAL_LIMIT per player, so this grows linearly with the roster.
+ */
+export function getFeaturedComparisonSlugs(allPlayers: Player[]): string[] {
+  const slugs = new Set<string>()
+  for (const player of allPlayers) {
+    for (const rival of getFeaturedRivals(player, allPlayers)) {
+      slugs.add(getComparisonSlug(player.slug, rival.slug))
+    }
+  }
+  return Array.from(slugs)
+}
@@ -0,0 +1,176 @@
+import { getSeasonStartYear, type Player } from "@/data/players"
+import { getPlayerRepository } from "@/data/repository"
+import { getTeamByName, teams, type Team } from "@/data/teams"
+
+/**
+ * Competitions Dataset - League & Cup Hub Pages
+ *
+ * Each competition generates a hub page at /competitions/[slug] listing the
+ * clubs that take part and the players who have scored and assisted most in
+ * it. Completes the hierarchy: competition → club → player.
+ *
+ * Competitions are matched by name, so `Competition.name` must be spelled
+ * exactly as it appears in `SeasonStats.competition` and `Team.league`.
+ */
+
+export type CompetitionType = "league" | "cup"
+
+export interface Competition {
+  name: string
+  slug: string
+  /** Domestic leagues are played by one country's clubs; cups span several. */
+  type: CompetitionType
+  /** Country for a league, confederation region for a cup. */
+  area: string
+  /** Body that runs the competition, used for JSON-LD. */
+  organizer: string
+}
+
+/**
+ * A player's combined output in one competition, across every season and
+ * club.
+ */
+export interface CompetitionPlayerTotals {
+  player: Player
+  goals: number
+  assists: number
+  appearances: number
+}
+
+export const competitions: Competition[] = [
+  {
+    name: "Premier League",
+    slug: "premier-league",
+    type: "league",
+    area: "England",
+    organizer: "The Football Association Premier League",
+  },
+  {
+    name: "LaLiga",
+    slug: "laliga",
+    type: "league",
+    area: "Spain",
+    organizer: "Liga Nacional de Fútbol Profesional",
+  },
+  {
+    name: "MLS",
+    slug: "mls",
+    type: "league",
+    area: "United States",
+    organizer: "Major League Soccer",
+  },
+  {
+    name: "Saudi Pro League",
+    slug: "saudi-pro-league",
+    type: "league",
+    area: "Saudi Arabia",
+    organizer: "Saudi Pro League",
+  },
+  {
+    name: "Champions League",
+    slug: "champions-league",
+    type: "cup",
+    area: "Europe",
+    organizer: "UEFA",
+  },
+]
+
+/**
+ * Find a competition by its URL slug. Used by the /competitions/[slug] route.
+ */
+export function getCompetitionBySlug(slug: string): Competition | undefined {
+  return competitions.find((competition) => competition.slug === slug)
+}
+
+/**
+ * Find a competition by its display name, e.g. to turn
+ * `SeasonStats.competition` into a link. Returns undefined for competitions
+ * without a hub page.
+ */
+export function getCompetitionByName(name: string): Competition | undefined {
+  return competitions.find((competition) => competition.name === name)
+}
+
+/**
+ * Get all competition slugs for generating static paths or sitemap entries.
+ */
+export function getAllCompetitionSlugs(): string[] {
+  return competitions.map((competition) => competition.slug)
+}
+
+/**
+ * Players with at least one season line in the competition.
+ */
+export async function getCompetitionPlayers(
+  competition: Competition
+): Promise<Player[]> {
+  return (await getPlayerRepository().list()).filter((player) =>
+    player.seasons.some((season) => season.competition === competition.name)
+  )
+}
+
+/**
+ * The latest season any player in the dataset played in the competition,
+ * e.g. "2025/26", or undefined if nobody has.
+ */
+export async function getLatestCompetitionSeason(
+  competition: Competition
+): Promise<string | undefined> {
+  return (await getCompetitionPlayers(competition))
+    .flatMap((player) => player.seasons)
+    .filter((season) => season.competition === competition.name)
+    .map((season) => season.season)
+    .sort((a, b) => getSeasonStartYear(b) - getSeasonStartYear(a))[0]
+}
+
+/**
+ * Clubs taking part, alphabetically: hub teams whose league this is, plus
+ * any club a player has a season line for in the competition. Clubs without
+ * a hub page come back with `team` undefined.
+ */
+export async function getCompetitionTeams(
+  competition: Competition
+): Promise<{ name: string; team?: Team }[]> {
+  const names = new Set(
+    teams
+      .filter((team) => team.league === competition.name)
+      .map((team) => team.name)
+  )
+  for (const player of await getCompetitionPlayers(competition)) {
+    for (const season of player.seasons) {
+      if (season.competition === competition.name) names.add(season.club)
+    }
+  }
+
+  return Array.from(names)
+    .sort((a, b) => a.localeCompare(b))
+    .map((name) => ({ name, team: getTeamByName(name) }))
+}
+
+/**
+ * Players ranked by goals or assists in the competition, best first. Players
+ * with none of the metric are left out; ties go to fewer appearances.
+ */
+export async function getCompetitionLeaders(
+  competition: Competition,
+  metric: "goals" | "assists",
+  limit = 10
+): Promise<CompetitionPlayerTotals[]> {
+  return (await getCompetitionPlayers(competition))
+    .map((player) =>
+      player.seasons
+        .filter((season) => season.competition === competition.name)
+        .reduce(
+          (sum, season) => ({
+            ...sum,
+            goals: sum.goals + season.goals,
+            assists: sum.assists + season.assists,
+            appearances: sum.appearances + season.appearances,
+          }),
+          { player, goals: 0, assists: 0, appearances: 0 }
+        )
+    )
+    .filter((totals) => totals[metric] > 0)
+    .sort((a, b) => b[metric] - a[metric] || a.appearances - b.appearances)
+    .slice(0, limit)
+}
@@ -0,0 +1,429 @@
+import type { PlayerRecord, SeasonStats } from "@/data/players"
+import type { PositionRole } from "@/data/positions"
+import { playerRecordSchema, positionRoleValues } from "@/data/schema"
+import { slugify } from "@/lib/utils"
+
+/**
+ * Bulk Import - Turning Spreadsheet Rows into Player Records
+ *
+ * Used by scripts/import-players.ts. Input is flat: one row per season line,
+ * with the player's own fields (name, team, position...) repeated on each of
+ * their rows. Rows are grouped into players by slug, validated with the same
+ * schema the site build uses, and every problem is reported against the row
+ * it came from.
+ */
+
+type PlayerField = Exclude<keyof PlayerRecord, "seasons">
+type SeasonField = keyof SeasonStats
+export type ImportField = PlayerField | SeasonField
+
+/**
+ * A raw input row. `source` identifies it in error messages, e.g.
+ * "players.csv:14" or "players.json[3]".
+ */
+export interface ImportRow {
+  source: string
+  values: Record<string, unknown>
+}
+
+export interface ImportIssue {
+  source: string
+  message: string
+}
+
+export interface ImportResult {
+  /** Players whose rows all validated. */
+  records: PlayerRecord[]
+  issues: ImportIssue[]
+}
+
+export interface ImportOptions {
+  /** Explicit column → field mappings, checked before the built-in aliases. */
+  columnMap?: Record<string, ImportField>
+  /** Date stamped on players without an updatedAt column (YYYY-MM-DD). */
+  today: string
+}
+
+const playerFields: PlayerField[] = [
+  "name",
+  "slug",
+  "team",
+  "position",
+  "nationality",
+  "age",
+  "image",
+  "description",
+  "updatedAt",
+]
+
+const numericFields = new Set<ImportField>([
+  "age",
+  "goals",
+  "assists",
+  "appearances",
+  "minutes",
+  "cleanSheets",
+  "penaltyGoals",
+  "teamGoals",
+])
+
+/**
+ * Column headers accepted for each field, compared after lowercasing and
+ * dropping everything but letters and digits ("Clean Sheets" → "cleansheets").
+ * Covers the headers used by the common stats sites' CSV exports.
+ */
+const fieldAliases: Record<ImportField, string[]> = {
+  name: ["name", "player", "playername", "fullname"],
+  slug: ["slug"],
+  team: ["team", "currentteam", "currentclub"],
+  position: ["position", "pos", "role"],
+  nationality: ["nationality", "nation", "country"],
+  age: ["age"],
+  image: ["image", "imageurl", "photo"],
+  description: ["description", "bio"],
+  updatedAt: ["updatedat", "lastupdated", "updated"],
+  season: ["season"],
+  club: ["club", "squad"],
+  competition: ["competition", "comp", "league"],
+  goals: ["goals", "gls"],
+  assists: ["assists", "ast"],
+  appearances: ["appearances", "apps", "mp", "matches"],
+  minutes: ["minutes", "min", "mins"],
+  cleanSheets: ["cleansheets", "cs"],
+  penaltyGoals: ["penaltygoals", "pk", "pkgoals", "pens"],
+  teamGoals: ["teamgoals", "clubgoals"],
+}
+
+/**
+ * Every field a column can be mapped onto, e.g. with the CLI's --map.
+ */
+export const importFields = Object.keys(fieldAliases) as ImportField[]
+
+export function isImportField(value: string): value is ImportField {
+  return (importFields as string[]).includes(value)
+}
+
+/**
+ * Position abbreviations as they appear in squad lists and data feeds.
+ */
+const positionAbbreviations: Record<string, PositionRole> = {
+  gk: "goalkeeper",
+  cb: "centre-back",
+  fb: "full-back",
+  lb: "full-back",
+  rb: "full-back",
+  lwb: "full-back",
+  rwb: "full-back",
+  dm: "defensive-midfielder",
+  cdm: "defensive-midfielder",
+  cm: "central-midfielder",
+  am: "attacking-midfielder",
+  cam: "attacking-midfielder",
+  lw: "winger",
+  rw: "winger",
+  lm: "winger",
+  rm: "winger",
+  ss: "second-striker",
+  cf: "centre-forward",
+  st: "centre-forward",
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+/**
+ * Works out which field each input column feeds. Unrecognised columns are
+ * returned separately so the CLI can warn about them instead of silently
+ * dropping data.
+ */
+export function resolveColumns(
+  headers: string[],
+  columnMap: Record<string, ImportField> = {}
+): { columns: Map<string, ImportField>; unknown: string[] } {
+  const explicit = new Map(
+    Object.entries(columnMap).map(([column, field]) => [
+      normalizeHeader(column),
+      field,
+    ])
+  )
+  const columns = new Map<string, ImportField>()
+  const unknown: string[] = []
+
+  for (const header of headers) {
+    const key = normalizeHeader(header)
+    const field =
+      explicit.get(key) ??
+      importFields.find((candidate) => fieldAliases[candidate].includes(key))
+
+    if (field) {
+      columns.set(header, field)
+    } else {
+      unknown.push(header)
+    }
+  }
+
+  return { columns, unknown }
+}
+
+/**
+ * Maps free-form position text ("ST", "Centre-Forward", "center forward",
+ * "Wingers") onto a canonical role. Unrecognised values are returned as-is so
+ * schema validation reports them.
+ */
+export function parsePosition(value: string): string {
+  const slug = slugify(value).replace(/center/g, "centre")
+  const abbreviation = positionAbbreviations[slug.replace(/-/g, "")]
+  if (abbreviation) return abbreviation
+
+  const singular = slug.endsWith("s") ? slug.slice(0, -1) : slug
+  return (
+    positionRoleValues.find((role) => role === slug || role === singular) ??
+    value
+  )
+}
+
+function coerceValue(field: ImportField, value: unknown): unknown {
+  if (typeof value !== "string") return value
+
+  const trimmed = value.trim()
+  if (trimmed === "") return undefined
+  if (numericFields.has(field)) return Number(trimmed.replace(/,/g, ""))
+  if (field === "position") return parsePosition(trimmed)
+  return trimmed
+}
+
+/**
+ * Applies the column mapping to a row, keeping only recognised fields.
+ */
+function mapRow(
+  row: ImportRow,
+  columns: Map<string, ImportField>
+): Partial<Record<ImportField, unknown>> {
+  const mapped: Partial<Record<ImportField, unknown>> = {}
+  for (const [column, value] of Object.entries(row.values)) {
+    const field = columns.get(column)
+    if (field) {
+      mapped[field] = coerceValue(field, value)
+    }
+  }
+  return mapped
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path
+    .map((part, index) =>
+      typeof part === "number" ? `[${part}]` : index === 0 ? part : `.${part}`
+    )
+    .join("")
+}
+
+/**
+ * Groups rows into players and validates each one.
+ *
+ * A player's own fields come from their first row; later rows may leave them
+ * blank but must not contradict them. Players with any invalid or
+ * contradicting row are left out of `records` entirely rather than imported
+ * with missing seasons or with whichever value came first.
+ */
+export function importPlayerRows(
+  rows: ImportRow[],
+  options: ImportOptions
+): ImportResult {
+  const headers = [...new Set(rows.flatMap((row) => Object.keys(row.values)))]
+  const { columns } = resolveColumns(headers, options.columnMap)
+  const issues: ImportIssue[] = []
+
+  const groups = new Map<
+    string,
+    {
+      fields: Partial<Record<PlayerField, unknown>>
+      firstSource: string
+      /** Set when a later row contradicts the first; the player is skipped. */
+      conflicting: boolean
+      seasons: {
+        source: string
+        values: Partial<Record<SeasonField, unknown>>
+      }[]
+    }
+  >()
+
+  for (const row of rows) {
+    const mapped = mapRow(row, columns)
+    const name = typeof mapped.name === "string" ? mapped.name : undefined
+    const slug =
+      typeof mapped.slug === "string"
+        ? mapped.slug
+        : name
+          ? slugify(name)
+          : undefined
+
+    if (!slug) {
+      issues.push({
+        source: row.source,
+        message: "name: is required to identify the player",
+      })
+      continue
+    }
+
+    let group = groups.get(slug)
+    if (!group) {
+      group = {
+        fields: {},
+        firstSource: row.source,
+        conflicting: false,
+        seasons: [],
+      }
+      groups.set(slug, group)
+    }
+
+    for (const field of playerFields) {
+      const value = mapped[field]
+      if (value === undefined) continue
+
+      const existing = group.fields[field]
+      if (existing === undefined) {
+        group.fields[field] = value
+      } else if (!Object.is(existing, value)) {
+        group.conflicting = true
+        issues.push({
+          source: row.source,
+          message: `${field}: "${value}" conflicts with "${existing}" from ${group.firstSource}`,
+        })
+      }
+    }
+
+    group.seasons.push({
+      source: row.source,
+      values: {
+        season: mapped.season,
+        // Without a club column, a season line is for the current team
+        club: mapped.club ?? mapped.team,
+        competition: mapped.competition,
+        goals: mapped.goals,
+        assists: mapped.assists,
+        appearances: mapped.appearances,
+        minutes: mapped.minutes,
+        cleanSheets: mapped.cleanSheets,
+        penaltyGoals: mapped.penaltyGoals,
+        teamGoals: mapped.teamGoals,
+      },
+    })
+  }
+
+  const records: PlayerRecord[] = []
+
+  for (const [slug, group] of groups) {
+    const candidate = {
+      name: group.fields.name,
+      slug,
+      team: group.fields.team,
+      position: group.fields.position,
+      nationality: group.fields.nationality,
+      age: group.fields.age,
+      image: group.fields.image ?? `/images/players/${slug}.jpg`,
+      description: group.fields.description,
+      updatedAt: group.fields.updatedAt ?? options.today,
+      seasons: group.seasons.map((season) => season.values),
+    }
+
+    // Still validated when conflicting, so every problem is reported at once
+    const result = playerRecordSchema.safeParse(candidate)
+    if (result.success) {
+      if (!group.conflicting) records.push(result.data)
+      continue
+    }
+
+    for (const issue of result.error.issues) {
+      const [head, index, ...rest] = issue.path
+      // Season problems point at the row the season line came from
+      if (head === "seasons" && typeof index === "number") {
+        issues.push({
+          source: group.seasons[index].source,
+          message: `${rest.length > 0 ? `${formatPath(rest)}: ` : ""}${issue.message}`,
+        })
+      } else {
+        issues.push({
+          source: group.firstSource,
+          message: `${formatPath(issue.path)}: ${issue.message}`,
+        })
+      }
+    }
+  }
+
+  return { records, issues }
+}
+
+/** Identifies a season line across imports. */
+const seasonKey = (season: SeasonStats) =>
+  `${season.season}|${season.club}|${season.competition}`
+
+/**
+ * Merges imported players into the existing dataset; new players are
+ * appended. A player whose slug is already present takes the imported
+ * fields, and their season lines are merged by season, club and competition:
+ * an imported line replaces the matching one in place, and lines the import
+ * doesn't mention are kept, so importing one new season doesn't erase the
+ * rest of a career.
+ */
+export function mergePlayerRecords(
+  existing: PlayerRecord[],
+  imported: PlayerRecord[]
+): { records: PlayerRecord[]; added: number; updated: number } {
+  const bySlug = new Map(imported.map((record) => [record.slug, record]))
+  const existingSlugs = new Set(existing.map((record) => record.slug))
+
+  const records = [
+    ...existing.map((record): PlayerRecord => {
+      const update = bySlug.get(record.slug)
+      if (!update) return record
+
+      const updatedSeasons = new Map(
+        update.seasons.map((season) => [seasonKey(season), season])
+      )
+      const existingKeys = new Set(record.seasons.map(seasonKey))
+
+      return {
+        ...update,
+        seasons: [
+          ...record.seasons.map(
+            (season) => updatedSeasons.get(seasonKey(season)) ?? season
+          ),
+          ...update.seasons.filter(
+            (season) => !existingKeys.has(seasonKey(season))
+          ),
+        ],
+      }
+    }),
+    ...imported.filter((record) => !existingSlugs.has(record.slug)),
+  ]
+  const updated = imported.filter((record) =>
+    existingSlugs.has(record.slug)
+  ).length
+
+  return { records, added: imported.length - updated, updated }
+}
+
+/**
+ * Serialises the dataset for data/players.json. Season lines are kept on one
+ * line each so diffs of an import stay readable.
+ */
+export function serializePlayerRecords(records: PlayerRecord[]): string {
+  const inline = (value: object) =>
+    `{ ${Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .map(([key, field]) => `${JSON.stringify(key)}: ${JSON.stringify(field)}`)
+      .join(", ")} }`
+
+  const players = records.map((record) => {
+    const { seasons, ...fields } = record
+    const lines = Object.entries(fields).map(
+      ([key, value]) => `    ${JSON.stringify(key)}: ${JSON.stringify(value)}`
+    )
+    const seasonLines = seasons.map((season) => `      ${inline(season)}`)
+
+    return `  {\n${lines.join(",\n")},\n    "seasons": [\n${seasonLines.join(",\n")}\n    ]\n  }`
+  })
+
+  return `[\n${players.join(",\n")}\n]\n`
+}
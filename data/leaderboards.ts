@@ -0,0 +1,214 @@
+import { getSeasonStartYear, type Player } from "@/data/players"
+import { goalContributionsPerAppearance, goalsPerAppearance } from "@/lib/stats"
+
+/**
+ * Leaderboards - /leaderboards/[metric]
+ *
+ * Each leaderboard ranks every player on a single metric. Counting stats rank
+ * everyone; rate stats only rank players with enough appearances, so a
+ * substitute who scored once in two games can't top "goals per appearance".
+ */
+
+export interface Leaderboard {
+  slug: string
+  /** Page heading, e.g. "Most Goals". */
+  title: string
+  /** Column header for the metric. */
+  label: string
+  description: string
+  /** "asc" when lower is better (youngest). */
+  order: "asc" | "desc"
+  /** Players with fewer career appearances are left off the board. */
+  minAppearances: number
+  /** Number of decimals to show; 0 means a whole-number stat. */
+  decimals: number
+  /** The ranked value, or undefined if the player doesn't qualify at all. */
+  value: (player: Player) => number | undefined
+  /** Extra context shown next to the value, e.g. the season it happened. */
+  detail?: (player: Player) => string | undefined
+}
+
+export interface LeaderboardEntry {
+  player: Player
+  value: number
+  /** Tied values share a rank (1, 2, 2, 4). */
+  rank: number
+}
+
+export interface LeaderboardRanking {
+  entries: LeaderboardEntry[]
+  /** Players left off for having fewer than `minAppearances` appearances. */
+  belowThreshold: number
+}
+
+/** Appearance threshold for per-appearance leaderboards. */
+export const MIN_RATIO_APPEARANCES = 50
+
+/** The goal tally for the "youngest to N goals" leaderboard. */
+export const MILESTONE_GOALS = 100
+
+/**
+ * Last calendar year of a season: "2004/05" → 2005, "2024" → 2024.
+ */
+function seasonEndYear(season: string): number {
+  const [start, end] = season.split("/")
+  return end === undefined ? Number(start) : Number(start) + 1
+}
+
+/**
+ * The season line in which a player's career goals first reached `goals`.
+ */
+function milestoneSeason(player: Player, goals: number): string | undefined {
+  let total = 0
+  const seasons = [...player.seasons].sort(
+    (a, b) => getSeasonStartYear(a.season) - getSeasonStartYear(b.season)
+  )
+
+  for (const line of seasons) {
+    total += line.goals
+    if (total >= goals) return line.season
+  }
+  return undefined
+}
+
+/**
+ * Age at the end of the season the player reached `goals` career goals.
+ *
+ * Players only carry their current age, so this counts back from the year of
+ * `updatedAt`; it can be a year out either side of a birthday.
+ */
+export function getAgeAtMilestone(
+  player: Player,
+  goals: number
+): number | undefined {
+  const season = milestoneSeason(player, goals)
+  if (season === undefined) return undefined
+
+  const yearsAgo =
+    new Date(player.updatedAt).getUTCFullYear() - seasonEndYear(season)
+  return player.age - Math.max(0, yearsAgo)
+}
+
+export const leaderboards: Leaderboard[] = [
+  {
+    slug: "goals",
+    title: "Most Goals",
+    label: "Goals",
+    description: "Career goals across every club and competition.",
+    order: "desc",
+    minAppearances: 0,
+    decimals: 0,
+    value: (player) => player.goals,
+  },
+  {
+    slug: "assists",
+    title: "Most Assists",
+    label: "Assists",
+    description: "Career assists across every club and competition.",
+    order: "desc",
+    minAppearances: 0,
+    decimals: 0,
+    value: (player) => player.assists,
+  },
+  {
+    slug: "appearances",
+    title: "Most Appearances",
+    label: "Appearances",
+    description: "Career appearances across every club and competition.",
+    order: "desc",
+    minAppearances: 0,
+    decimals: 0,
+    value: (player) => player.appearances,
+  },
+  {
+    slug: "goals-per-app",
+    title: "Best Goals per Appearance",
+    label: "Goals per App",
+    description: "Career goals divided by career appearances.",
+    order: "desc",
+    minAppearances: MIN_RATIO_APPEARANCES,
+    decimals: 2,
+    value: goalsPerAppearance,
+  },
+  {
+    slug: "goal-contributions-per-app",
+    title: "Best Goals + Assists per Appearance",
+    label: "G+A per App",
+    description: "Career goals plus assists divided by career appearances.",
+    order: "desc",
+    minAppearances: MIN_RATIO_APPEARANCES,
+    decimals: 2,
+    value: goalContributionsPerAppearance,
+  },
+  {
+    slug: `youngest-to-${MILESTONE_GOALS}-goals`,
+    title: `Youngest to ${MILESTONE_GOALS} Goals`,
+    label: "Age",
+    description: `Age in the season each player scored their ${MILESTONE_GOALS}th career goal.`,
+    order: "asc",
+    minAppearances: 0,
+    decimals: 0,
+    value: (player) => getAgeAtMilestone(player, MILESTONE_GOALS),
+    detail: (player) => milestoneSeason(player, MILESTONE_GOALS),
+  },
+]
+
+export function getLeaderboardBySlug(slug: string): Leaderboard | undefined {
+  return leaderboards.find((leaderboard) => leaderboard.slug === slug)
+}
+
+export function getAllLeaderboardSlugs(): string[] {
+  return leaderboards.map((leaderboard) => leaderboard.slug)
+}
+
+/**
+ * Ranks the given players on a leaderboard's metric. Ties are broken by name
+ * for a stable order but share a rank.
+ */
+export function rankLeaderboard(
+  leaderboard: Leaderboard,
+  playerList: Player[]
+): LeaderboardRanking {
+  const direction = leaderboard.order === "asc" ? 1 : -1
+  let belowThreshold = 0
+  const qualified: Omit<LeaderboardEntry, "rank">[] = []
+
+  for (const player of playerList) {
+    if (player.appearances < leaderboard.minAppearances) {
+      belowThreshold++
+      continue
+    }
+    const value = leaderboard.value(player)
+    if (value !== undefined) qualified.push({ player, value })
+  }
+
+  qualified.sort(
+    (a, b) =>
+      direction * (a.value - b.value) ||
+      a.player.name.localeCompare(b.player.name)
+  )
+
+  const entries: LeaderboardEntry[] = []
+  qualified.forEach((entry, index) => {
+    const previous = entries.at(-1)
+    entries.push({
+      ...entry,
+      rank: previous?.value === entry.value ? previous.rank : index + 1,
+    })
+  })
+
+  return { entries, belowThreshold }
+}
+
+/**
+ * Formats a leaderboard value: thousands separators for counting stats,
+ * fixed decimals for rates.
+ */
+export function formatLeaderboardValue(
+  leaderboard: Leaderboard,
+  value: number
+): string {
+  return leaderboard.decimals > 0
+    ? value.toFixed(leaderboard.decimals)
+    : value.toLocaleString()
+}
@@ -0,0 +1,206 @@
+import type { PlayerRecord, SeasonStats } from "@/data/players"
+import { parseMatchRecords } from "@/data/schema"
+import matchRecords from "@/data/matches.json"
+import appearanceRecords from "@/data/match-appearances.json"
+import playerRecords from "@/data/players.json"
+
+/**
+ * Matches Dataset - Game Logs
+ *
+ * Individual fixtures, plus one appearance record per player per match. They
+ * feed the /players/[slug]/matches game log and, through `withMatchLog`, the
+ * season lines that career totals are summed from.
+ *
+ * A competition-season with logged appearances is taken entirely from the
+ * logs, so either log every appearance in it or none. Team names must be
+ * spelled exactly as in `SeasonStats.club`. Records are validated by
+ * `parseMatchRecords` in data/schema.ts when this module loads; player slugs
+ * are checked against the raw player records, because data/players.ts
+ * depends on this module.
+ */
+
+export interface Match {
+  /** Kebab-case, conventionally "<date>-<home team>-<away team>". */
+  id: string
+  /** ISO 8601 date of kick-off. */
+  date: string
+  competition: string
+  homeTeam: string
+  awayTeam: string
+  /** Goals after extra time; shoot-outs are not counted. */
+  homeScore: number
+  awayScore: number
+}
+
+export interface MatchAppearance {
+  /** Id of the match played. */
+  match: string
+  /** Slug of the player. */
+  player: string
+  /** The side the player played for: the match's home or away team. */
+  team: string
+  /**
+   * Season the match counts towards for that team, in the same format as
+   * `SeasonStats.season` ("2024/25", or "2025" for calendar-year leagues).
+   */
+  season: string
+  minutes: number
+  goals: number
+  /** Goals from penalties, included in `goals`. */
+  penaltyGoals: number
+  assists: number
+  yellowCards: number
+  redCards: number
+}
+
+export type MatchResult = "W" | "D" | "L"
+
+/**
+ * One row of a player's game log: the appearance with its match resolved.
+ */
+export interface MatchLogEntry {
+  match: Match
+  appearance: MatchAppearance
+  opponent: string
+  isHome: boolean
+  result: MatchResult
+}
+
+export interface MatchLogTotals {
+  appearances: number
+  minutes: number
+  goals: number
+  assists: number
+  yellowCards: number
+  redCards: number
+}
+
+const dataset = parseMatchRecords(
+  matchRecords,
+  appearanceRecords,
+  new Set(playerRecords.map((record) => record.slug))
+)
+
+export const matches: Match[] = dataset.matches
+export const matchAppearances: MatchAppearance[] = dataset.appearances
+
+const matchesById = new Map(matches.map((match) => [match.id, match]))
+
+function toLogEntry(appearance: MatchAppearance): MatchLogEntry {
+  // parseMatchRecords guarantees the match exists
+  const match = matchesById.get(appearance.match) as Match
+  const isHome = appearance.team === match.homeTeam
+  const scored = isHome ? match.homeScore : match.awayScore
+  const conceded = isHome ? match.awayScore : match.homeScore
+
+  return {
+    match,
+    appearance,
+    opponent: isHome ? match.awayTeam : match.homeTeam,
+    isHome,
+    result: scored > conceded ? "W" : scored < conceded ? "L" : "D",
+  }
+}
+
+/**
+ * A player's game log, newest match first. Empty if none are logged.
+ */
+export function getPlayerMatchLog(slug: string): MatchLogEntry[] {
+  return matchAppearances
+    .filter((appearance) => appearance.player === slug)
+    .map(toLogEntry)
+    .sort((a, b) => b.match.date.localeCompare(a.match.date))
+}
+
+/**
+ * Slugs of every player with at least one logged appearance.
+ */
+export function getPlayersWithMatchLogs(): string[] {
+  return Array.from(
+    new Set(matchAppearances.map((appearance) => appearance.player))
+  )
+}
+
+/**
+ * Adds up a set of game log rows, e.g. a filtered view of one player's log.
+ */
+export function summarizeMatchLog(entries: MatchLogEntry[]): MatchLogTotals {
+  return entries.reduce(
+    (sum, { appearance }) => ({
+      appearances: sum.appearances + 1,
+      minutes: sum.minutes + appearance.minutes,
+      goals: sum.goals + appearance.goals,
+      assists: sum.assists + appearance.assists,
+      yellowCards: sum.yellowCards + appearance.yellowCards,
+      redCards: sum.redCards + appearance.redCards,
+    }),
+    {
+      appearances: 0,
+      minutes: 0,
+      goals: 0,
+      assists: 0,
+      yellowCards: 0,
+      redCards: 0,
+    }
+  )
+}
+
+/**
+ * Replaces a player's season lines with ones summed from their game log
+ * wherever the log covers that season, club and competition, and adds lines
+ * for competition-seasons only the log knows about. Team goals come from the
+ * scores of the logged matches; clean sheets are not derived from logs. Run
+ * before `withCareerTotals`.
+ */
+export function withMatchLog(record: PlayerRecord): PlayerRecord {
+  const logged = new Map<string, Required<Omit<SeasonStats, "cleanSheets">>>()
+
+  for (const appearance of matchAppearances) {
+    if (appearance.player !== record.slug) continue
+
+    const { match, isHome } = toLogEntry(appearance)
+    const { competition } = match
+    const key = `${appearance.season}|${appearance.team}|${competition}`
+    const line = logged.get(key) ?? {
+      season: appearance.season,
+      club: appearance.team,
+      competition,
+      goals: 0,
+      assists: 0,
+      appearances: 0,
+      minutes: 0,
+      penaltyGoals: 0,
+      teamGoals: 0,
+    }
+    line.goals += appearance.goals
+    line.assists += appearance.assists
+    line.appearances += 1
+    line.minutes += appearance.minutes
+    line.penaltyGoals += appearance.penaltyGoals
+    line.teamGoals += isHome ? match.homeScore : match.awayScore
+    logged.set(key, line)
+  }
+
+  if (logged.size === 0) return record
+
+  const seasons = record.seasons.map((line) => {
+    const key = `${line.season}|${line.club}|${line.competition}`
+    const fromLog = logged.get(key)
+    logged.delete(key)
+    return fromLog ?? line
+  })
+
+  return { ...record, seasons: [...seasons, ...logged.values()] }
+}
+
+/**
+ * Display text for a match date: "2025-06-14" → "14 Jun 2025".
+ */
+export function formatMatchDate(match: Match): string {
+  return new Date(match.date).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  })
+}
@@ -0,0 +1,50 @@
+import type { Player } from "@/data/players"
+import {
+  matchesPlayerFilter,
+  resolvePage,
+  type PlayerRepository,
+  type PlayerSort,
+} from "@/data/repository"
+
+const sorters: Record<PlayerSort, (a: Player, b: Player) => number> = {
+  goals: (a, b) => b.goals - a.goals,
+  updatedAt: (a, b) => b.updatedAt.localeCompare(a.updatedAt),
+}
+
+/**
+ * PlayerRepository over an array already in memory, such as the bundled
+ * dataset. Lookups by slug go through a map built once up front.
+ */
+export function createMemoryPlayerRepository(
+  players: Player[]
+): PlayerRepository {
+  const bySlug = new Map(players.map((player) => [player.slug, player]))
+
+  return {
+    async list() {
+      return players
+    },
+
+    async getBySlug(slug) {
+      return bySlug.get(slug)
+    },
+
+    async filter(filter) {
+      return players.filter((player) => matchesPlayerFilter(player, filter))
+    },
+
+    async paginate(request) {
+      const matching = players.filter((player) =>
+        matchesPlayerFilter(player, request.filter ?? {})
+      )
+      // Array.prototype.sort is stable, so ties keep dataset order
+      if (request.sort) matching.sort(sorters[request.sort])
+      const { offset, ...page } = resolvePage(request, matching.length)
+
+      return {
+        ...page,
+        items: matching.slice(offset, offset + page.pageSize),
+      }
+    },
+  }
+}
@@ -0,0 +1,79 @@
+import type { Player } from "@/data/players"
+import { getPlayerRepository } from "@/data/repository"
+import { slugify } from "@/lib/utils"
+
+/**
+ * Nations - Nationality Hub Pages
+ *
+ * Nations are derived from `Player.nationality` rather than authored, so a
+ * new country gets its own /nations/[slug] page as soon as the first player
+ * from it is added to the dataset.
+ */
+export interface Nation {
+  name: string
+  slug: string
+}
+
+export interface NationTotals {
+  goals: number
+  assists: number
+  appearances: number
+}
+
+/**
+ * Every nationality represented in the dataset, in alphabetical order.
+ */
+export async function getAllNations(): Promise<Nation[]> {
+  const players = await getPlayerRepository().list()
+  const names = Array.from(new Set(players.map((player) => player.nationality)))
+
+  return names
+    .sort((a, b) => a.localeCompare(b))
+    .map((name) => ({ name, slug: slugify(name) }))
+}
+
+/**
+ * Find a nation by its URL slug. Used by the /nations/[slug] route.
+ */
+export async function getNationBySlug(
+  slug: string
+): Promise<Nation | undefined> {
+  return (await getAllNations()).find((nation) => nation.slug === slug)
+}
+
+/**
+ * Link target for a player's nationality, e.g. "Argentina" → "/nations/argentina".
+ */
+export function getNationHref(nationality: string): string {
+  return `/nations/${slugify(nationality)}`
+}
+
+/**
+ * Get all nation slugs for generating static paths or sitemap entries.
+ */
+export async function getAllNationSlugs(): Promise<string[]> {
+  return (await getAllNations()).map((nation) => nation.slug)
+}
+
+/**
+ * Players of the given nationality, top scorers first.
+ */
+export async function getNationPlayers(nation: Nation): Promise<Player[]> {
+  return (
+    await getPlayerRepository().filter({ nationality: nation.name })
+  ).sort((a, b) => b.goals - a.goals)
+}
+
+/**
+ * Combined career output of a group of players.
+ */
+export function getNationTotals(nationPlayers: Player[]): NationTotals {
+  return nationPlayers.reduce(
+    (sum, player) => ({
+      goals: sum.goals + player.goals,
+      assists: sum.assists + player.assists,
+      appearances: sum.appearances + player.appearances,
+    }),
+    { goals: 0, assists: 0, appearances: 0 }
+  )
+}
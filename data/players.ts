@@ -18,114 +18,98 @@
  * - Fresh data on every request means search engines always see up-to-date stats
  */
 
+import type { PositionRole } from "@/data/positions"
+import { withMatchLog } from "@/data/matches"
+import { parsePlayerRecords } from "@/data/schema"
+import playerRecords from "@/data/players.json"
+
+/**
+ * A single season line: one player's output for one club in one competition.
+ * Seasons use the "2023/24" format for European-calendar leagues and a plain
+ * year ("2024") for calendar-year leagues such as MLS.
+ */
+export interface SeasonStats {
+  season: string
+  club: string
+  competition: string
+  goals: number
+  assists: number
+  appearances: number
+  minutes: number
+  /** Only tracked for goalkeepers and defenders. */
+  cleanSheets?: number
+  /** Goals scored from penalties, where known. Included in `goals`. */
+  penaltyGoals?: number
+  /** Goals the club scored in the competition that season, where known. */
+  teamGoals?: number
+}
+
 export interface Player {
   name: string
   slug: string
   team: string
-  position: string
+  position: PositionRole
   nationality: string
   age: number
+  /** Career totals, derived from `seasons` — never hand-typed. */
   goals: number
   assists: number
   appearances: number
+  minutes: number
+  cleanSheets: number
   image: string
   description: string
+  /** ISO 8601 date the stats were last refreshed; drives sitemap lastmod. */
+  updatedAt: string
+  seasons: SeasonStats[]
+}
+
+/**
+ * The shape a player is authored in. Career totals are left out on purpose so
+ * they can't drift from the season-by-season breakdown they are summed from.
+ * Validated against `playerRecordSchema` in data/schema.ts.
+ */
+export type PlayerRecord = Omit<
+  Player,
+  "goals" | "assists" | "appearances" | "minutes" | "cleanSheets"
+>
+
+/**
+ * Sums a player's season lines into career totals.
+ */
+export function withCareerTotals(record: PlayerRecord): Player {
+  const totals = record.seasons.reduce(
+    (sum, season) => ({
+      goals: sum.goals + season.goals,
+      assists: sum.assists + season.assists,
+      appearances: sum.appearances + season.appearances,
+      minutes: sum.minutes + season.minutes,
+      cleanSheets: sum.cleanSheets + (season.cleanSheets ?? 0),
+    }),
+    { goals: 0, assists: 0, appearances: 0, minutes: 0, cleanSheets: 0 }
+  )
+
+  return { ...record, ...totals }
 }
 
 /**
  * HOW PROGRAMMATIC SEO WORKS:
- * Each player object below generates a unique, SEO-optimized page at /players/[slug].
- * The slug is used for clean, keyword-rich URLs (e.g., /players/lionel-messi).
- * Meta tags, JSON-LD schema, and page content are all generated dynamically
- * from this data, allowing us to scale to hundreds or thousands of pages
- * with minimal effort while maintaining SEO best practices.
+ * Each player object in data/players.json generates a unique, SEO-optimized
+ * page at /players/[slug]. The slug is used for clean, keyword-rich URLs
+ * (e.g., /players/lionel-messi). Meta tags, JSON-LD schema, and page content
+ * are all generated dynamically from this data, allowing us to scale to
+ * hundreds or thousands of pages with minimal effort while maintaining SEO
+ * best practices.
+ *
+ * The JSON file is written by `pnpm import:players` (scripts/import-players.ts)
+ * from CSV or JSON exports, so players are added in bulk rather than by hand.
+ * Any invalid record throws here, failing the build before a page renders.
+ * Competition-seasons with match logs (data/matches.ts) are summed from the
+ * logs before career totals are.
  */
-export const players: Player[] = [
-  {
-    name: "Lionel Messi",
-    slug: "lionel-messi",
-    team: "Inter Miami CF",
-    position: "Forward",
-    nationality: "Argentina",
-    age: 38,
-    goals: 838,
-    assists: 377,
-    appearances: 1068,
-    image: "https://upload.wikimedia.org/wikipedia/commons/8/89/Lionel_Messi_2022.jpg",
-    description:
-      "Widely regarded as one of the greatest football players of all time, Lionel Messi has broken countless records throughout his illustrious career. An eight-time Ballon d'Or winner, Messi led Argentina to World Cup glory in 2022. He now plays for Inter Miami CF in MLS, continuing to showcase his extraordinary vision, dribbling, and finishing ability.",
-  },
-  {
-    name: "Cristiano Ronaldo",
-    slug: "cristiano-ronaldo",
-    team: "Al Nassr",
-    position: "Forward",
-    nationality: "Portugal",
-    age: 41,
-    goals: 921,
-    assists: 264,
-    appearances: 1257,
-    image: "/images/players/cristiano-ronaldo.jpg",
-    description:
-      "Cristiano Ronaldo is a footballing phenomenon whose relentless drive and physical prowess have earned him five Ballon d'Or awards. With a record-breaking career spanning Manchester United, Real Madrid, Juventus, and now Al Nassr, Ronaldo holds the record for most international goals scored. His aerial ability, pace, and lethal finishing make him one of the most complete forwards ever.",
-  },
-  {
-    name: "Kylian Mbappe",
-    slug: "kylian-mbappe",
-    team: "Real Madrid",
-    position: "Forward",
-    nationality: "France",
-    age: 27,
-    goals: 312,
-    assists: 138,
-    appearances: 484,
-    image: "/images/players/kylian-mbappe.jpg",
-    description:
-      "Kylian Mbappe is one of the most exciting young talents in world football. The French superstar became a World Cup winner at just 19 years old and has since established himself as one of the most prolific forwards in the game. Now at Real Madrid, Mbappe combines electrifying pace with clinical finishing and exceptional dribbling skills.",
-  },
-  {
-    name: "Erling Haaland",
-    slug: "erling-haaland",
-    team: "Manchester City",
-    position: "Striker",
-    nationality: "Norway",
-    age: 25,
-    goals: 287,
-    assists: 58,
-    appearances: 331,
-    image: "/images/players/erling-haaland.jpg",
-    description:
-      "Erling Haaland is a goal-scoring machine who has redefined the modern striker role. Standing at 6'4\", the Norwegian powerhouse combines raw physicality with remarkable technique and lightning pace. Since joining Manchester City, Haaland has shattered Premier League scoring records and continues to terrorize defenses across Europe with his extraordinary finishing instincts.",
-  },
-  {
-    name: "Jude Bellingham",
-    slug: "jude-bellingham",
-    team: "Real Madrid",
-    position: "Midfielder",
-    nationality: "England",
-    age: 22,
-    goals: 68,
-    assists: 54,
-    appearances: 289,
-    image: "/images/players/jude-bellingham.jpg",
-    description:
-      "Jude Bellingham burst onto the world stage as a teenager at Birmingham City before starring at Borussia Dortmund and earning a blockbuster move to Real Madrid. The English midfielder is known for his box-to-box dynamism, technical skill, and remarkable composure under pressure. He has quickly become one of the most complete midfielders in world football.",
-  },
-  {
-    name: "Vinicius Junior",
-    slug: "vinicius-junior",
-    team: "Real Madrid",
-    position: "Winger",
-    nationality: "Brazil",
-    age: 25,
-    goals: 108,
-    assists: 97,
-    appearances: 316,
-    image: "/images/players/vinicius-junior.jpg",
-    description:
-      "Vinicius Junior is a Brazilian winger whose dazzling dribbling and explosive pace make him one of the most thrilling players to watch. A key player for Real Madrid, Vinicius scored the winning goal in the 2022 Champions League final and has established himself as one of the best wide players in world football. His ability to beat defenders one-on-one is virtually unmatched.",
-  },
-]
+export const players: Player[] = parsePlayerRecords(playerRecords).map(
+  (record) => withCareerTotals(withMatchLog(record))
+)
 
 /**
  * Utility function to find a player by their URL slug.
@@ -142,3 +126,104 @@ export function getPlayerBySlug(slug: string): Player | undefined {
 export function getAllPlayerSlugs(): string[] {
   return players.map((player) => player.slug)
 }
+
+/**
+ * Most recent `updatedAt` among the given players, e.g. for the lastModified
+ * date of a hub page that lists them. Falls back to the Unix epoch when empty.
+ */
+export function getLatestUpdate(playerList: Player[]): Date {
+  const latest = playerList.reduce(
+    (max, player) => Math.max(max, Date.parse(player.updatedAt)),
+    0
+  )
+  return new Date(latest)
+}
+
+/**
+ * Returns the leading year of a season label ("2023/24" → 2023, "2024" → 2024).
+ * Used to order season lines chronologically across both label formats.
+ */
+export function getSeasonStartYear(season: string): number {
+  return Number.parseInt(season.slice(0, 4), 10)
+}
+
+/**
+ * A player's output in one season, summed across clubs and competitions.
+ */
+export interface SeasonSummary {
+  season: string
+  goals: number
+  assists: number
+  appearances: number
+}
+
+/**
+ * A player's output at one club, summed across seasons and competitions.
+ */
+export interface ClubSummary {
+  club: string
+  goals: number
+  assists: number
+  appearances: number
+}
+
+/**
+ * One entry per season, oldest first. Season lines for different clubs or
+ * competitions in the same season are added together.
+ */
+export function getSeasonSummaries(player: Player): SeasonSummary[] {
+  const bySeason = new Map<string, SeasonSummary>()
+
+  for (const line of player.seasons) {
+    const summary = bySeason.get(line.season) ?? {
+      season: line.season,
+      goals: 0,
+      assists: 0,
+      appearances: 0,
+    }
+    summary.goals += line.goals
+    summary.assists += line.assists
+    summary.appearances += line.appearances
+    bySeason.set(line.season, summary)
+  }
+
+  return Array.from(bySeason.values()).sort(
+    (a, b) => getSeasonStartYear(a.season) - getSeasonStartYear(b.season)
+  )
+}
+
+/**
+ * True for a season line with the player's national team. Matched on the
+ * competition, since a club's name can be a country's too.
+ */
+export function isNationalTeamLine(line: SeasonStats): boolean {
+  return line.competition === "International"
+}
+
+/**
+ * One entry per club, in the order the player first played for them.
+ * National-team lines are left out, as in getClubTimeline.
+ */
+export function getClubSummaries(player: Player): ClubSummary[] {
+  const byClub = new Map<string, ClubSummary>()
+  const chronological = [...player.seasons].sort(
+    (a, b) => getSeasonStartYear(a.season) - getSeasonStartYear(b.season)
+  )
+
+  for (const line of chronological) {
+    if (isNationalTeamLine(line)) continue
+
+    const summary = byClub.get(line.club) ?? {
+      club: line.club,
+      goals: 0,
+      assists: 0,
+      appearances: 0,
+    }
+    summary.goals += line.goals
+    summary.assists += line.assists
+    summary.appearances += line.appearances
+    byClub.set(line.club, summary)
+  }
+
+  return Array.from(byClub.values())
+}
@@ -0,0 +1,334 @@
+import type { Player } from "@/data/players"
+import { getPlayerRepository } from "@/data/repository"
+import {
+  goalContributions,
+  goalContributionsPerAppearance,
+  goalsPerAppearance,
+  perAppearance,
+} from "@/lib/stats"
+
+/**
+ * Position Taxonomy - Canonical Roles and Position Landing Pages
+ *
+ * Every player is tagged with exactly one sub-role (e.g. "winger"), and every
+ * sub-role belongs to one of four position groups. Landing pages exist at
+ * /positions/[slug] for both levels: /positions/forwards lists the whole
+ * group, /positions/wingers just the sub-role.
+ *
+ * Each group defines the metrics that matter for it, so a goalkeeper is
+ * ranked by clean sheets rather than goals.
+ */
+export type PositionGroup = "GK" | "DEF" | "MID" | "FWD"
+
+export type PositionRole =
+  | "goalkeeper"
+  | "centre-back"
+  | "full-back"
+  | "defensive-midfielder"
+  | "central-midfielder"
+  | "attacking-midfielder"
+  | "winger"
+  | "second-striker"
+  | "centre-forward"
+
+export interface PositionMetric {
+  key: string
+  label: string
+  value: (player: Player) => number
+  /** Number of decimals to show; 0 means a whole-number counting stat. */
+  decimals: number
+}
+
+interface PositionGroupDefinition {
+  slug: string
+  label: string
+  pluralLabel: string
+  /** Headline stats, in order. The first one is the default ranking key. */
+  metrics: PositionMetric[]
+  /** Rate stat shown alongside the headline stats on ranking tables. */
+  ratio: PositionMetric
+}
+
+interface PositionRoleDefinition {
+  slug: string
+  label: string
+  pluralLabel: string
+  group: PositionGroup
+}
+
+/**
+ * A landing page: either a whole position group or a single sub-role.
+ */
+export interface Position {
+  slug: string
+  label: string
+  pluralLabel: string
+  group: PositionGroup
+  roles: PositionRole[]
+}
+
+const goalsMetric: PositionMetric = {
+  key: "goals",
+  label: "Goals",
+  value: (player) => player.goals,
+  decimals: 0,
+}
+
+const assistsMetric: PositionMetric = {
+  key: "assists",
+  label: "Assists",
+  value: (player) => player.assists,
+  decimals: 0,
+}
+
+const appearancesMetric: PositionMetric = {
+  key: "appearances",
+  label: "Appearances",
+  value: (player) => player.appearances,
+  decimals: 0,
+}
+
+const minutesMetric: PositionMetric = {
+  key: "minutes",
+  label: "Minutes",
+  value: (player) => player.minutes,
+  decimals: 0,
+}
+
+const cleanSheetsMetric: PositionMetric = {
+  key: "cleanSheets",
+  label: "Clean Sheets",
+  value: (player) => player.cleanSheets,
+  decimals: 0,
+}
+
+const goalContributionsMetric: PositionMetric = {
+  key: "goalContributions",
+  label: "Goals + Assists",
+  value: goalContributions,
+  decimals: 0,
+}
+
+export const positionGroups: Record<PositionGroup, PositionGroupDefinition> = {
+  GK: {
+    slug: "goalkeepers",
+    label: "Goalkeeper",
+    pluralLabel: "Goalkeepers",
+    metrics: [cleanSheetsMetric, appearancesMetric, minutesMetric],
+    ratio: {
+      key: "cleanSheetsPerApp",
+      label: "Clean Sheets per App",
+      value: (player) => perAppearance(player.cleanSheets, player.appearances),
+      decimals: 2,
+    },
+  },
+  DEF: {
+    slug: "defenders",
+    label: "Defender",
+    pluralLabel: "Defenders",
+    metrics: [cleanSheetsMetric, appearancesMetric, goalContributionsMetric],
+    ratio: {
+      key: "cleanSheetsPerApp",
+      label: "Clean Sheets per App",
+      value: (player) => perAppearance(player.cleanSheets, player.appearances),
+      decimals: 2,
+    },
+  },
+  MID: {
+    slug: "midfielders",
+    label: "Midfielder",
+    pluralLabel: "Midfielders",
+    metrics: [goalContributionsMetric, assistsMetric, appearancesMetric],
+    ratio: {
+      key: "goalContributionsPerApp",
+      label: "G+A per App",
+      value: goalContributionsPerAppearance,
+      decimals: 2,
+    },
+  },
+  FWD: {
+    slug: "forwards",
+    label: "Forward",
+    pluralLabel: "Forwards",
+    metrics: [goalsMetric, assistsMetric, appearancesMetric],
+    ratio: {
+      key: "goalsPerApp",
+      label: "Goals per App",
+      value: goalsPerAppearance,
+      decimals: 2,
+    },
+  },
+}
+
+export const positionRoles: Record<PositionRole, PositionRoleDefinition> = {
+  goalkeeper: {
+    slug: "goalkeepers",
+    label: "Goalkeeper",
+    pluralLabel: "Goalkeepers",
+    group: "GK",
+  },
+  "centre-back": {
+    slug: "centre-backs",
+    label: "Centre-Back",
+    pluralLabel: "Centre-Backs",
+    group: "DEF",
+  },
+  "full-back": {
+    slug: "full-backs",
+    label: "Full-Back",
+    pluralLabel: "Full-Backs",
+    group: "DEF",
+  },
+  "defensive-midfielder": {
+    slug: "defensive-midfielders",
+    label: "Defensive Midfielder",
+    pluralLabel: "Defensive Midfielders",
+    group: "MID",
+  },
+  "central-midfielder": {
+    slug: "central-midfielders",
+    label: "Central Midfielder",
+    pluralLabel: "Central Midfielders",
+    group: "MID",
+  },
+  "attacking-midfielder": {
+    slug: "attacking-midfielders",
+    label: "Attacking Midfielder",
+    pluralLabel: "Attacking Midfielders",
+    group: "MID",
+  },
+  winger: {
+    slug: "wingers",
+    label: "Winger",
+    pluralLabel: "Wingers",
+    group: "FWD",
+  },
+  "second-striker": {
+    slug: "second-strikers",
+    label: "Second Striker",
+    pluralLabel: "Second Strikers",
+    group: "FWD",
+  },
+  "centre-forward": {
+    slug: "centre-forwards",
+    label: "Centre-Forward",
+    pluralLabel: "Centre-Forwards",
+    group: "FWD",
+  },
+}
+
+/**
+ * Display label for a player's role, e.g. "centre-forward" → "Centre-Forward".
+ */
+export function getPositionLabel(role: PositionRole): string {
+  return positionRoles[role].label
+}
+
+/**
+ * The position group a role belongs to.
+ */
+export function getPositionGroup(role: PositionRole): PositionGroup {
+  return positionRoles[role].group
+}
+
+/**
+ * Metrics that matter for a player's position, in display order.
+ */
+export function getPositionMetrics(role: PositionRole): PositionMetric[] {
+  return positionGroups[getPositionGroup(role)].metrics
+}
+
+/**
+ * Formats a metric for display: thousands separators for counting stats,
+ * fixed decimals for rates.
+ */
+export function formatMetricValue(
+  metric: PositionMetric,
+  player: Player
+): string {
+  const value = metric.value(player)
+
+  return metric.decimals > 0
+    ? value.toFixed(metric.decimals)
+    : value.toLocaleString()
+}
+
+/**
+ * Every landing page: the four groups, plus one page per sub-role. A role
+ * that shares its slug with its group (goalkeeper) is served by the group page.
+ */
+export function getAllPositions(): Position[] {
+  const groupEntries = Object.entries(positionGroups) as [
+    PositionGroup,
+    PositionGroupDefinition,
+  ][]
+  const roleEntries = Object.entries(positionRoles) as [
+    PositionRole,
+    PositionRoleDefinition,
+  ][]
+
+  const groupPositions: Position[] = groupEntries.map(
+    ([group, definition]) => ({
+      slug: definition.slug,
+      label: definition.label,
+      pluralLabel: definition.pluralLabel,
+      group,
+      roles: roleEntries
+        .filter(([, role]) => role.group === group)
+        .map(([role]) => role),
+    })
+  )
+
+  const rolePositions: Position[] = roleEntries
+    .filter(([, role]) => role.slug !== positionGroups[role.group].slug)
+    .map(([role, definition]) => ({
+      slug: definition.slug,
+      label: definition.label,
+      pluralLabel: definition.pluralLabel,
+      group: definition.group,
+      roles: [role],
+    }))
+
+  return [...groupPositions, ...rolePositions]
+}
+
+/**
+ * Find a landing page by its URL slug. Used by the /positions/[slug] route.
+ */
+export function getPositionBySlug(slug: string): Position | undefined {
+  return getAllPositions().find((position) => position.slug === slug)
+}
+
+/**
+ * Link target for a player's role, e.g. "winger" → "/positions/wingers".
+ */
+export function getPositionHref(role: PositionRole): string {
+  return `/positions/${positionRoles[role].slug}`
+}
+
+/**
+ * Players in the given position, ranked by the group's first headline metric.
+ */
+export async function getPositionPlayers(
+  position: Position
+): Promise<Player[]> {
+  const [rankBy] = positionGroups[position.group].metrics
+
+  return (await getPlayerRepository().list())
+    .filter((player) => position.roles.includes(player.position))
+    .sort((a, b) => rankBy.value(b) - rankBy.value(a))
+}
+
+/**
+ * Slugs of landing pages that have at least one player. Empty positions are
+ * left out so we never publish thin pages.
+ */
+export async function getAllPositionSlugs(): Promise<string[]> {
+  const players = await getPlayerRepository().list()
+
+  return getAllPositions()
+    .filter((position) =>
+      players.some((player) => position.roles.includes(player.position))
+    )
+    .map((position) => position.slug)
+}
@@ -0,0 +1,125 @@
+import type { Player } from "@/data/players"
+import type { PositionRole } from "@/data/positions"
+import { createMemoryPlayerRepository } from "@/data/memory-repository"
+import { players } from "@/data/players"
+import { getPlayerDatabasePath, getPlayerDataSource } from "@/lib/env"
+
+/**
+ * Player Repository - Pluggable Data Source
+ *
+ * Pages read players through this interface instead of importing the dataset
+ * directly, so the storage behind the site can change without touching them.
+ * Methods are async because most real backends are.
+ *
+ * Implementations:
+ * - memory-repository.ts: the bundled data/players.json (the default)
+ * - sqlite-repository.ts: a SQLite database, for datasets too big to bundle
+ */
+
+/**
+ * Exact-match filters; omitted fields match every player.
+ */
+export interface PlayerFilter {
+  team?: string
+  nationality?: string
+  position?: PositionRole
+}
+
+/**
+ * Page orders, highest first so page 1 holds the top players: career goals,
+ * or the date the stats were last refreshed. Ties keep dataset order.
+ */
+export type PlayerSort = "goals" | "updatedAt"
+
+export interface PageRequest {
+  /** 1-based page number. */
+  page: number
+  pageSize: number
+  filter?: PlayerFilter
+  /** Omitted for dataset order. */
+  sort?: PlayerSort
+}
+
+export interface Page<T> {
+  items: T[]
+  page: number
+  pageSize: number
+  /** Matching items across all pages. */
+  total: number
+  pageCount: number
+}
+
+export interface PlayerRepository {
+  /** Every player, in dataset order. */
+  list(): Promise<Player[]>
+  getBySlug(slug: string): Promise<Player | undefined>
+  filter(filter: PlayerFilter): Promise<Player[]>
+  paginate(request: PageRequest): Promise<Page<Player>>
+}
+
+/**
+ * Shared by implementations: true if the player passes every set filter.
+ */
+export function matchesPlayerFilter(
+  player: Player,
+  filter: PlayerFilter
+): boolean {
+  return (
+    (filter.team === undefined || player.team === filter.team) &&
+    (filter.nationality === undefined ||
+      player.nationality === filter.nationality) &&
+    (filter.position === undefined || player.position === filter.position)
+  )
+}
+
+/**
+ * Clamps a page request to sane bounds and works out the page count.
+ */
+export function resolvePage(
+  request: PageRequest,
+  total: number
+): Omit<Page<never>, "items"> & { offset: number } {
+  const pageSize = Math.max(1, Math.floor(request.pageSize))
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+  const page = Math.min(Math.max(1, Math.floor(request.page)), pageCount)
+
+  return { page, pageSize, total, pageCount, offset: (page - 1) * pageSize }
+}
+
+/**
+ * A repository that creates its backend on first use. Keeps the SQLite
+ * backend, and with it the native better-sqlite3 module, from loading at all
+ * unless that source is selected.
+ */
+function createLazyPlayerRepository(
+  load: () => Promise<PlayerRepository>
+): PlayerRepository {
+  let backend: Promise<PlayerRepository> | undefined
+  const getBackend = () => (backend ??= load())
+
+  return {
+    list: async () => (await getBackend()).list(),
+    getBySlug: async (slug) => (await getBackend()).getBySlug(slug),
+    filter: async (filter) => (await getBackend()).filter(filter),
+    paginate: async (request) => (await getBackend()).paginate(request),
+  }
+}
+
+let repository: PlayerRepository | undefined
+
+/**
+ * The repository for the configured data source (see PLAYER_DATA_SOURCE in
+ * lib/env.ts), created once per server process.
+ */
+export function getPlayerRepository(): PlayerRepository {
+  repository ??=
+    getPlayerDataSource() === "sqlite"
+      ? createLazyPlayerRepository(async () => {
+          const { createSqlitePlayerRepository } =
+            await import("@/data/sqlite-repository")
+          return createSqlitePlayerRepository(getPlayerDatabasePath())
+        })
+      : createMemoryPlayerRepository(players)
+
+  return repository
+}
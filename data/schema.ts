@@ -0,0 +1,484 @@
+import { z } from "zod"
+import type { PlayerRecord, SeasonStats } from "@/data/players"
+import type { PositionRole } from "@/data/positions"
+import type { Match, MatchAppearance } from "@/data/matches"
+import type { Transfer, TransferType } from "@/data/transfers"
+import { slugify } from "@/lib/utils"
+
+/**
+ * Player Dataset Schema - Build-Time Validation
+ *
+ * The dataset is hand-typed, so TypeScript alone can't catch a negative age,
+ * a duplicated slug or a season line with zero appearances (which would turn
+ * every per-appearance ratio into NaN). Every record is parsed against this
+ * schema when data/players.ts is loaded, so a bad record fails `next build`
+ * with a message pointing at the exact player and field.
+ */
+
+/**
+ * Upper bounds for a single season line. Generous enough for record-breaking
+ * seasons (Messi's 50 league goals in 2011/12) but tight enough to catch a
+ * typo such as an extra digit.
+ */
+export const SEASON_LIMITS = {
+  goals: 100,
+  assists: 100,
+  appearances: 80,
+  /** Per appearance, allowing for extra time and stoppage time. */
+  minutesPerAppearance: 130,
+  /** Per appearance; a hat-trick is common, more than five is not credible. */
+  goalsPerAppearance: 5,
+}
+
+export const AGE_LIMITS = { min: 15, max: 50 }
+
+// Mirrors the PositionRole union; `satisfies` keeps the two in sync.
+export const positionRoleValues = [
+  "goalkeeper",
+  "centre-back",
+  "full-back",
+  "defensive-midfielder",
+  "central-midfielder",
+  "attacking-midfielder",
+  "winger",
+  "second-striker",
+  "centre-forward",
+] as const satisfies readonly PositionRole[]
+
+const seasonLabel = z
+  .string({ required_error: "is required" })
+  .regex(/^\d{4}(\/\d{2})?$/, 'must look like "2023/24" or "2024"')
+
+const text = z
+  .string({ required_error: "is required" })
+  .trim()
+  .min(1, "is required")
+
+const count = z
+  .number({
+    required_error: "is required",
+    invalid_type_error: "must be a number",
+  })
+  .int("must be a whole number")
+  .nonnegative("must not be negative")
+
+export const seasonStatsSchema: z.ZodType<SeasonStats> = z
+  .object({
+    season: seasonLabel,
+    club: text,
+    competition: text,
+    goals: count.max(
+      SEASON_LIMITS.goals,
+      `exceeds ${SEASON_LIMITS.goals} in a single season`
+    ),
+    assists: count.max(
+      SEASON_LIMITS.assists,
+      `exceeds ${SEASON_LIMITS.assists} in a single season`
+    ),
+    appearances: count
+      .min(1, "must be at least 1 (omit season lines without appearances)")
+      .max(
+        SEASON_LIMITS.appearances,
+        `exceeds ${SEASON_LIMITS.appearances} in a single season`
+      ),
+    minutes: count,
+    cleanSheets: count.optional(),
+    penaltyGoals: count.optional(),
+    teamGoals: count.optional(),
+  })
+  .superRefine((season, ctx) => {
+    if (season.goals > season.appearances * SEASON_LIMITS.goalsPerAppearance) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["goals"],
+        message: `${season.goals} goals in ${season.appearances} appearances is implausible`,
+      })
+    }
+    if (
+      season.minutes >
+      season.appearances * SEASON_LIMITS.minutesPerAppearance
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["minutes"],
+        message: `${season.minutes} minutes in ${season.appearances} appearances is implausible`,
+      })
+    }
+    if (
+      season.cleanSheets !== undefined &&
+      season.cleanSheets > season.appearances
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["cleanSheets"],
+        message: "cannot exceed appearances",
+      })
+    }
+    if (
+      season.penaltyGoals !== undefined &&
+      season.penaltyGoals > season.goals
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["penaltyGoals"],
+        message: "cannot exceed goals",
+      })
+    }
+    if (
+      season.teamGoals !== undefined &&
+      season.teamGoals < season.goals + season.assists
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["teamGoals"],
+        message: `must be at least goals plus assists (${season.goals + season.assists})`,
+      })
+    }
+  })
+
+export const playerRecordSchema: z.ZodType<PlayerRecord> = z
+  .object({
+    name: text,
+    slug: z
+      .string({ required_error: "is required" })
+      .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "must be lowercase kebab-case"),
+    team: text,
+    position: z.enum(positionRoleValues, {
+      errorMap: () => ({
+        message: `must be one of: ${positionRoleValues.join(", ")}`,
+      }),
+    }),
+    nationality: text,
+    age: count
+      .min(AGE_LIMITS.min, `must be at least ${AGE_LIMITS.min}`)
+      .max(AGE_LIMITS.max, `must be at most ${AGE_LIMITS.max}`),
+    image: z
+      .string({ required_error: "is required" })
+      .refine(
+        (value) => value.startsWith("/") || URL.canParse(value),
+        "must be a site path or an absolute URL"
+      ),
+    description: text,
+    updatedAt: z
+      .string({ required_error: "is required" })
+      .date("must be an ISO date (YYYY-MM-DD)"),
+    seasons: z.array(seasonStatsSchema).min(1, "must have at least one line"),
+  })
+  .superRefine((record, ctx) => {
+    const expectedSlug = slugify(record.name)
+    if (record.slug !== expectedSlug) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["slug"],
+        message: `"${record.slug}" does not match name "${record.name}" (expected "${expectedSlug}")`,
+      })
+    }
+
+    const seen = new Set<string>()
+    record.seasons.forEach((season, index) => {
+      const key = `${season.season}|${season.club}|${season.competition}`
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["seasons", index],
+          message: `duplicate line for ${season.club} in ${season.competition} ${season.season}`,
+        })
+      }
+      seen.add(key)
+    })
+  })
+
+export const playerDatasetSchema = z
+  .array(playerRecordSchema)
+  .superRefine((records, ctx) => {
+    const firstIndex = new Map<string, number>()
+    records.forEach((record, index) => {
+      const existing = firstIndex.get(record.slug)
+      if (existing !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "slug"],
+          message: `"${record.slug}" is already used by players[${existing}]`,
+        })
+      } else {
+        firstIndex.set(record.slug, index)
+      }
+    })
+  })
+
+export const transferTypeValues = [
+  "loan",
+  "permanent",
+  "free",
+] as const satisfies readonly TransferType[]
+
+export const transferSchema: z.ZodType<Transfer> = z
+  .object({
+    player: text,
+    from: text,
+    to: text,
+    date: z
+      .string({ required_error: "is required" })
+      .date("must be an ISO date (YYYY-MM-DD)"),
+    fee: count.nullable(),
+    type: z.enum(transferTypeValues, {
+      errorMap: () => ({
+        message: `must be one of: ${transferTypeValues.join(", ")}`,
+      }),
+    }),
+  })
+  .superRefine((transfer, ctx) => {
+    if (transfer.from === transfer.to) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["to"],
+        message: `must differ from "from" (${transfer.from})`,
+      })
+    }
+    if (transfer.type === "free" && transfer.fee) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["fee"],
+        message: "must be 0 or null for a free transfer",
+      })
+    }
+  })
+
+export const matchSchema: z.ZodType<Match> = z
+  .object({
+    id: z
+      .string({ required_error: "is required" })
+      .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "must be lowercase kebab-case"),
+    date: z
+      .string({ required_error: "is required" })
+      .date("must be an ISO date (YYYY-MM-DD)"),
+    competition: text,
+    homeTeam: text,
+    awayTeam: text,
+    homeScore: count,
+    awayScore: count,
+  })
+  .superRefine((match, ctx) => {
+    if (match.homeTeam === match.awayTeam) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["awayTeam"],
+        message: `must differ from homeTeam (${match.homeTeam})`,
+      })
+    }
+  })
+
+export const matchAppearanceSchema: z.ZodType<MatchAppearance> = z.object({
+  match: text,
+  player: text,
+  team: text,
+  season: seasonLabel,
+  minutes: count
+    .min(1, "must be at least 1 (omit unused substitutes)")
+    .max(
+      SEASON_LIMITS.minutesPerAppearance,
+      `exceeds ${SEASON_LIMITS.minutesPerAppearance} in a single match`
+    ),
+  goals: count,
+  penaltyGoals: count,
+  assists: count,
+  yellowCards: count.max(2, "cannot exceed 2"),
+  redCards: count.max(1, "cannot exceed 1"),
+})
+
+/**
+ * Renders zod issues as one line per problem, prefixed with the record they
+ * belong to: `players[2] (kylian-mbappe).seasons[4].goals: must be ...`.
+ */
+export function formatDatasetIssues(
+  error: z.ZodError,
+  records: readonly unknown[],
+  label = "players"
+): string[] {
+  return error.issues.map((issue) => {
+    const [index, ...rest] = issue.path
+    if (typeof index !== "number") {
+      return `${label}: ${issue.message}`
+    }
+
+    const record = records[index]
+    const slug =
+      record && typeof record === "object" && "slug" in record
+        ? ` (${String(record.slug)})`
+        : ""
+    const field = rest
+      .map((part) => (typeof part === "number" ? `[${part}]` : `.${part}`))
+      .join("")
+
+    return `${label}[${index}]${slug}${field}: ${issue.message}`
+  })
+}
+
+/**
+ * Throws the issues of a failed dataset parse, one per line, under a heading
+ * naming the dataset: "Invalid player dataset (2 problems)".
+ */
+function throwDatasetIssues(
+  dataset: string,
+  error: z.ZodError,
+  records: readonly unknown[],
+  label?: string
+): never {
+  const issues = formatDatasetIssues(error, records, label)
+  throw new Error(
+    `Invalid ${dataset} dataset (${issues.length} ${issues.length === 1 ? "problem" : "problems"}):\n${issues.map((line) => `  - ${line}`).join("\n")}`
+  )
+}
+
+/**
+ * Validates the whole dataset and returns it unchanged, or throws with every
+ * problem listed so they can all be fixed in one pass.
+ */
+export function parsePlayerRecords(
+  records: readonly unknown[]
+): PlayerRecord[] {
+  const result = playerDatasetSchema.safeParse(records)
+
+  if (!result.success) {
+    throwDatasetIssues("player", result.error, records)
+  }
+
+  return result.data
+}
+
+/**
+ * Validates the transfer dataset against the players it refers to, throwing
+ * with every problem listed like parsePlayerRecords.
+ */
+export function parseTransferRecords(
+  records: readonly unknown[],
+  playerSlugs: ReadonlySet<string>
+): Transfer[] {
+  const schema = z.array(transferSchema).superRefine((transfers, ctx) => {
+    transfers.forEach((transfer, index) => {
+      if (!playerSlugs.has(transfer.player)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "player"],
+          message: `"${transfer.player}" is not a player slug`,
+        })
+      }
+    })
+  })
+  const result = schema.safeParse(records)
+
+  if (!result.success) {
+    throwDatasetIssues("transfer", result.error, records, "transfers")
+  }
+
+  return result.data
+}
+
+/**
+ * Validates the match dataset and the appearances logged against it,
+ * throwing with every problem listed like parsePlayerRecords. Appearances
+ * must point at a known match and player, play for one of the two sides, and
+ * not claim more goals and assists than their side scored.
+ */
+export function parseMatchRecords(
+  matchRecords: readonly unknown[],
+  appearanceRecords: readonly unknown[],
+  playerSlugs: ReadonlySet<string>
+): { matches: Match[]; appearances: MatchAppearance[] } {
+  const matchResult = z
+    .array(matchSchema)
+    .superRefine((matches, ctx) => {
+      const seen = new Set<string>()
+      matches.forEach((match, index) => {
+        if (seen.has(match.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "id"],
+            message: `"${match.id}" is already used by another match`,
+          })
+        }
+        seen.add(match.id)
+      })
+    })
+    .safeParse(matchRecords)
+
+  if (!matchResult.success) {
+    throwDatasetIssues("match", matchResult.error, matchRecords, "matches")
+  }
+
+  const matchesById = new Map(
+    matchResult.data.map((match) => [match.id, match])
+  )
+  const appearanceResult = z
+    .array(matchAppearanceSchema)
+    .superRefine((appearances, ctx) => {
+      const seen = new Set<string>()
+      appearances.forEach((appearance, index) => {
+        if (!playerSlugs.has(appearance.player)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "player"],
+            message: `"${appearance.player}" is not a player slug`,
+          })
+        }
+
+        const key = `${appearance.match}|${appearance.player}`
+        if (seen.has(key)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index],
+            message: `duplicate appearance for ${appearance.player} in ${appearance.match}`,
+          })
+        }
+        seen.add(key)
+
+        const match = matchesById.get(appearance.match)
+        if (!match) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "match"],
+            message: `"${appearance.match}" is not a match id`,
+          })
+          return
+        }
+
+        const teamScore =
+          appearance.team === match.homeTeam
+            ? match.homeScore
+            : appearance.team === match.awayTeam
+              ? match.awayScore
+              : undefined
+        if (teamScore === undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "team"],
+            message: `"${appearance.team}" did not play in ${match.id}`,
+          })
+        } else if (appearance.penaltyGoals > appearance.goals) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "penaltyGoals"],
+            message: "cannot exceed goals",
+          })
+        } else if (appearance.goals + appearance.assists > teamScore) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "goals"],
+            message: `${appearance.goals} goals and ${appearance.assists} assists exceed the ${teamScore} ${appearance.team} scored`,
+          })
+        }
+      })
+    })
+    .safeParse(appearanceRecords)
+
+  if (!appearanceResult.success) {
+    throwDatasetIssues(
+      "match appearance",
+      appearanceResult.error,
+      appearanceRecords,
+      "matchAppearances"
+    )
+  }
+
+  return { matches: matchResult.data, appearances: appearanceResult.data }
+}
@@ -0,0 +1,287 @@
+import Database from "better-sqlite3"
+import {
+  withCareerTotals,
+  type Player,
+  type PlayerRecord,
+  type SeasonStats,
+} from "@/data/players"
+import type { PositionRole } from "@/data/positions"
+import {
+  resolvePage,
+  type PlayerFilter,
+  type PlayerRepository,
+  type PlayerSort,
+} from "@/data/repository"
+
+/**
+ * SQLite-backed PlayerRepository.
+ *
+ * Players and their season lines live in two tables; career totals are
+ * summed from the season lines on read, exactly as for the bundled dataset.
+ * Filtering and pagination happen in SQL, so only the requested page of
+ * players is loaded.
+ *
+ * The database is built from data/players.json by `pnpm db:build`
+ * (scripts/build-player-db.ts) and opened read-only.
+ */
+
+const schema = `
+  CREATE TABLE players (
+    slug TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    team TEXT NOT NULL,
+    position TEXT NOT NULL,
+    nationality TEXT NOT NULL,
+    age INTEGER NOT NULL,
+    image TEXT NOT NULL,
+    description TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX players_team ON players (team);
+  CREATE INDEX players_nationality ON players (nationality);
+  CREATE INDEX players_position ON players (position);
+
+  CREATE TABLE seasons (
+    player_slug TEXT NOT NULL REFERENCES players (slug) ON DELETE CASCADE,
+    line INTEGER NOT NULL,
+    season TEXT NOT NULL,
+    club TEXT NOT NULL,
+    competition TEXT NOT NULL,
+    goals INTEGER NOT NULL,
+    assists INTEGER NOT NULL,
+    appearances INTEGER NOT NULL,
+    minutes INTEGER NOT NULL,
+    clean_sheets INTEGER,
+    penalty_goals INTEGER,
+    team_goals INTEGER,
+    PRIMARY KEY (player_slug, line)
+  );
+`
+
+interface PlayerRow {
+  slug: string
+  name: string
+  team: string
+  position: PositionRole
+  nationality: string
+  age: number
+  image: string
+  description: string
+  updated_at: string
+}
+
+interface SeasonRow {
+  player_slug: string
+  season: string
+  club: string
+  competition: string
+  goals: number
+  assists: number
+  appearances: number
+  minutes: number
+  clean_sheets: number | null
+  penalty_goals: number | null
+  team_goals: number | null
+}
+
+function toSeasonStats(row: SeasonRow): SeasonStats {
+  return {
+    season: row.season,
+    club: row.club,
+    competition: row.competition,
+    goals: row.goals,
+    assists: row.assists,
+    appearances: row.appearances,
+    minutes: row.minutes,
+    ...(row.clean_sheets === null ? {} : { cleanSheets: row.clean_sheets }),
+    ...(row.penalty_goals === null ? {} : { penaltyGoals: row.penalty_goals }),
+    ...(row.team_goals === null ? {} : { teamGoals: row.team_goals }),
+  }
+}
+
+/**
+ * Builds a WHERE clause for the set filter fields. Column names come from a
+ * fixed map, never from input, so only the values are parameters.
+ */
+// Career goals are summed from the season lines, as on read
+const orderBy: Record<PlayerSort, string> = {
+  goals:
+    "(SELECT COALESCE(SUM(goals), 0) FROM seasons WHERE seasons.player_slug = players.slug) DESC, rowid",
+  updatedAt: "updated_at DESC, rowid",
+}
+
+function whereClause(filter: PlayerFilter = {}): {
+  sql: string
+  params: string[]
+} {
+  const columns = {
+    team: "team",
+    nationality: "nationality",
+    position: "position",
+  } as const
+  const conditions: string[] = []
+  const params: string[] = []
+
+  for (const key of Object.keys(columns) as (keyof typeof columns)[]) {
+    const value = filter[key]
+    if (value !== undefined) {
+      conditions.push(`${columns[key]} = ?`)
+      params.push(value)
+    }
+  }
+
+  return {
+    sql: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  }
+}
+
+export function createSqlitePlayerRepository(path: string): PlayerRepository {
+  const db = new Database(path, { readonly: true, fileMustExist: true })
+
+  /**
+   * Attaches season lines to player rows. `seasonRows` must be ordered by
+   * player and line.
+   */
+  function hydrate(rows: PlayerRow[], seasonRows: SeasonRow[]): Player[] {
+    const seasonsBySlug = new Map<string, SeasonStats[]>()
+    for (const row of seasonRows) {
+      const seasons = seasonsBySlug.get(row.player_slug) ?? []
+      seasons.push(toSeasonStats(row))
+      seasonsBySlug.set(row.player_slug, seasons)
+    }
+
+    return rows.map((row) =>
+      withCareerTotals({
+        name: row.name,
+        slug: row.slug,
+        team: row.team,
+        position: row.position,
+        nationality: row.nationality,
+        age: row.age,
+        image: row.image,
+        description: row.description,
+        updatedAt: row.updated_at,
+        seasons: seasonsBySlug.get(row.slug) ?? [],
+      })
+    )
+  }
+
+  /**
+   * Loads a known, small set of players (one page) with a single season query.
+   */
+  function hydrateBySlug(rows: PlayerRow[]): Player[] {
+    if (rows.length === 0) return []
+
+    const seasonRows = db
+      .prepare(
+        `SELECT * FROM seasons
+         WHERE player_slug IN (${rows.map(() => "?").join(", ")})
+         ORDER BY player_slug, line`
+      )
+      .all(...rows.map((row) => row.slug)) as SeasonRow[]
+
+    return hydrate(rows, seasonRows)
+  }
+
+  /**
+   * Loads every player matching `filter`. Season lines are fetched with the
+   * same filter via a join, so this stays two queries however many match.
+   */
+  function selectPlayers(filter?: PlayerFilter): Player[] {
+    const where = whereClause(filter)
+    const rows = db
+      .prepare(`SELECT * FROM players ${where.sql} ORDER BY rowid`)
+      .all(...where.params) as PlayerRow[]
+    const seasonRows = db
+      .prepare(
+        `SELECT seasons.* FROM seasons
+         JOIN players ON players.slug = seasons.player_slug
+         ${where.sql}
+         ORDER BY seasons.player_slug, seasons.line`
+      )
+      .all(...where.params) as SeasonRow[]
+
+    return hydrate(rows, seasonRows)
+  }
+
+  return {
+    async list() {
+      return selectPlayers()
+    },
+
+    async getBySlug(slug) {
+      const row = db
+        .prepare("SELECT * FROM players WHERE slug = ?")
+        .get(slug) as PlayerRow | undefined
+
+      return row ? hydrateBySlug([row])[0] : undefined
+    },
+
+    async filter(filter) {
+      return selectPlayers(filter)
+    },
+
+    async paginate(request) {
+      const where = whereClause(request.filter)
+      const { count } = db
+        .prepare(`SELECT COUNT(*) AS count FROM players ${where.sql}`)
+        .get(...where.params) as { count: number }
+      const { offset, ...page } = resolvePage(request, count)
+
+      const rows = db
+        .prepare(
+          `SELECT * FROM players ${where.sql}
+           ORDER BY ${request.sort ? orderBy[request.sort] : "rowid"}
+           LIMIT ? OFFSET ?`
+        )
+        .all(...where.params, page.pageSize, offset) as PlayerRow[]
+
+      return { ...page, items: hydrateBySlug(rows) }
+    },
+  }
+}
+
+/**
+ * Creates (or recreates) the database at `path` from validated player
+ * records, preserving dataset order.
+ */
+export function writePlayerDatabase(path: string, records: PlayerRecord[]) {
+  const db = new Database(path)
+
+  try {
+    db.exec("DROP TABLE IF EXISTS seasons; DROP TABLE IF EXISTS players;")
+    db.exec(schema)
+
+    const insertPlayer = db.prepare(
+      `INSERT INTO players
+         (slug, name, team, position, nationality, age, image, description, updated_at)
+       VALUES
+         (@slug, @name, @team, @position, @nationality, @age, @image, @description, @updatedAt)`
+    )
+    const insertSeason = db.prepare(
+      `INSERT INTO seasons
+         (player_slug, line, season, club, competition, goals, assists, appearances, minutes, clean_sheets, penalty_goals, team_goals)
+       VALUES
+         (@playerSlug, @line, @season, @club, @competition, @goals, @assists, @appearances, @minutes, @cleanSheets, @penaltyGoals, @teamGoals)`
+    )
+
+    db.transaction(() => {
+      for (const { seasons, ...player } of records) {
+        insertPlayer.run(player)
+        seasons.forEach((season, line) =>
+          insertSeason.run({
+            ...season,
+            playerSlug: player.slug,
+            line,
+            cleanSheets: season.cleanSheets ?? null,
+            penaltyGoals: season.penaltyGoals ?? null,
+            teamGoals: season.teamGoals ?? null,
+          })
+        )
+      }
+    })()
+  } finally {
+    db.close()
+  }
+}
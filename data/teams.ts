@@ -0,0 +1,157 @@
+import type { Player } from "@/data/players"
+import { getPlayerRepository } from "@/data/repository"
+
+/**
+ * Teams Dataset - Club Hub Pages
+ *
+ * Each team generates a hub page at /teams/[slug] that links out to every
+ * player who plays (or has played) for the club. This extends the homepage's
+ * "hub and spoke" structure one level deeper: homepage → club → player.
+ *
+ * Teams are matched to players by name, so `Team.name` must be spelled exactly
+ * as it appears in `Player.team` and `SeasonStats.club`.
+ */
+export interface Team {
+  name: string
+  slug: string
+  league: string
+  country: string
+  /**
+   * Path to the crest image under public/. Leave unset until the file
+   * exists; pages fall back to a placeholder and omit it from metadata.
+   */
+  crest?: string
+}
+
+export const teams: Team[] = [
+  {
+    name: "Inter Miami CF",
+    slug: "inter-miami-cf",
+    league: "MLS",
+    country: "United States",
+  },
+  {
+    name: "Al Nassr",
+    slug: "al-nassr",
+    league: "Saudi Pro League",
+    country: "Saudi Arabia",
+  },
+  {
+    name: "Real Madrid",
+    slug: "real-madrid",
+    league: "LaLiga",
+    country: "Spain",
+  },
+  {
+    name: "Manchester City",
+    slug: "manchester-city",
+    league: "Premier League",
+    country: "England",
+  },
+  {
+    name: "Barcelona",
+    slug: "barcelona",
+    league: "LaLiga",
+    country: "Spain",
+  },
+  {
+    name: "Paris Saint-Germain",
+    slug: "paris-saint-germain",
+    league: "Ligue 1",
+    country: "France",
+  },
+  {
+    name: "Manchester United",
+    slug: "manchester-united",
+    league: "Premier League",
+    country: "England",
+  },
+  {
+    name: "Juventus",
+    slug: "juventus",
+    league: "Serie A",
+    country: "Italy",
+  },
+  {
+    name: "Sporting CP",
+    slug: "sporting-cp",
+    league: "Primeira Liga",
+    country: "Portugal",
+  },
+  {
+    name: "AS Monaco",
+    slug: "as-monaco",
+    league: "Ligue 1",
+    country: "Monaco",
+  },
+  {
+    name: "Borussia Dortmund",
+    slug: "borussia-dortmund",
+    league: "Bundesliga",
+    country: "Germany",
+  },
+  {
+    name: "Red Bull Salzburg",
+    slug: "red-bull-salzburg",
+    league: "Austrian Bundesliga",
+    country: "Austria",
+  },
+  {
+    name: "Molde",
+    slug: "molde",
+    league: "Eliteserien",
+    country: "Norway",
+  },
+  {
+    name: "Birmingham City",
+    slug: "birmingham-city",
+    league: "Championship",
+    country: "England",
+  },
+  {
+    name: "Flamengo",
+    slug: "flamengo",
+    league: "Brasileirão",
+    country: "Brazil",
+  },
+]
+
+/**
+ * Find a team by its URL slug. Used by the /teams/[slug] route.
+ */
+export function getTeamBySlug(slug: string): Team | undefined {
+  return teams.find((team) => team.slug === slug)
+}
+
+/**
+ * Find a team by its display name, e.g. to turn `player.team` into a link.
+ * Returns undefined for names without a hub page (such as national teams).
+ */
+export function getTeamByName(name: string): Team | undefined {
+  return teams.find((team) => team.name === name)
+}
+
+/**
+ * Get all team slugs for generating static paths or sitemap entries.
+ */
+export function getAllTeamSlugs(): string[] {
+  return teams.map((team) => team.slug)
+}
+
+/**
+ * Players currently registered with the team.
+ */
+export function getTeamSquad(team: Team): Promise<Player[]> {
+  return getPlayerRepository().filter({ team: team.name })
+}
+
+/**
+ * Players with at least one season line at the team who have since moved on.
+ */
+export async function getFormerTeamPlayers(team: Team): Promise<Player[]> {
+  return (await getPlayerRepository().list()).filter(
+    (player) =>
+      player.team !== team.name &&
+      player.seasons.some((season) => season.club === team.name)
+  )
+}
@@ -0,0 +1,151 @@
+import {
+  getSeasonStartYear,
+  isNationalTeamLine,
+  type Player,
+  type SeasonStats,
+} from "@/data/players"
+import { parseTransferRecords } from "@/data/schema"
+import transferRecords from "@/data/transfers.json"
+import playerRecords from "@/data/players.json"
+
+/**
+ * Transfers Dataset - Career Moves
+ *
+ * Every move between clubs, linked to a player by slug. Feeds the club
+ * timeline on each player page and the /transfers page.
+ *
+ * Club names must be spelled exactly as in `SeasonStats.club`, so a transfer
+ * can be matched to the spell it started. Records are validated by
+ * `transferSchema` in data/schema.ts when this module loads; as for match
+ * logs, player slugs are checked against the raw player records, the same
+ * ones the SQLite database is built from.
+ */
+
+export type TransferType = "loan" | "permanent" | "free"
+
+export interface Transfer {
+  /** Slug of the player who moved. */
+  player: string
+  from: string
+  to: string
+  /** ISO 8601 date the move was completed. */
+  date: string
+  /** In euros. 0 for free transfers; null when undisclosed. */
+  fee: number | null
+  type: TransferType
+}
+
+/**
+ * A continuous spell at one club, built from consecutive season lines.
+ */
+export interface ClubSpell {
+  club: string
+  firstSeason: string
+  lastSeason: string
+  appearances: number
+  goals: number
+  assists: number
+  /** Moves that brought the player to the club for this spell. */
+  transfers: Transfer[]
+}
+
+export const transfers: Transfer[] = parseTransferRecords(
+  transferRecords,
+  new Set(playerRecords.map((record) => record.slug))
+).sort((a, b) => a.date.localeCompare(b.date))
+
+/**
+ * A player's transfers, oldest first.
+ */
+export function getPlayerTransfers(slug: string): Transfer[] {
+  return transfers.filter((transfer) => transfer.player === slug)
+}
+
+/**
+ * The most recent transfers across all players, newest first.
+ */
+export function getRecentTransfers(limit = transfers.length): Transfer[] {
+  return [...transfers].reverse().slice(0, limit)
+}
+
+const feeFormat = new Intl.NumberFormat("en-GB", {
+  style: "currency",
+  currency: "EUR",
+  notation: "compact",
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 1,
+})
+
+/**
+ * Display text for a transfer fee: "€100M", "Free", "Loan" or "Undisclosed".
+ */
+export function formatTransferFee(transfer: Transfer): string {
+  if (transfer.type === "free" || transfer.fee === 0) return "Free"
+  if (transfer.fee === null) {
+    return transfer.type === "loan" ? "Loan" : "Undisclosed"
+  }
+  return feeFormat.format(transfer.fee)
+}
+
+/**
+ * Display text for a transfer date: "2023-07-01" → "1 Jul 2023".
+ */
+export function formatTransferDate(transfer: Transfer): string {
+  return new Date(transfer.date).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+export const transferTypeLabels: Record<TransferType, string> = {
+  loan: "Loan",
+  permanent: "Permanent",
+  free: "Free transfer",
+}
+
+/**
+ * The clubs a player has played for, oldest first, with the transfers that
+ * took them there. National team lines are left out, and a club the player
+ * returned to (Ronaldo at Manchester United) gets one entry per spell.
+ */
+export function getClubTimeline(player: Player): ClubSpell[] {
+  const lines: SeasonStats[] = [...player.seasons]
+    .filter((line) => !isNationalTeamLine(line))
+    .sort((a, b) => getSeasonStartYear(a.season) - getSeasonStartYear(b.season))
+  const spells: ClubSpell[] = []
+
+  for (const line of lines) {
+    let spell = spells.at(-1)
+    if (spell?.club !== line.club) {
+      spell = {
+        club: line.club,
+        firstSeason: line.season,
+        lastSeason: line.season,
+        appearances: 0,
+        goals: 0,
+        assists: 0,
+        transfers: [],
+      }
+      spells.push(spell)
+    }
+    spell.lastSeason = line.season
+    spell.appearances += line.appearances
+    spell.goals += line.goals
+    spell.assists += line.assists
+  }
+
+  // A move belongs to a spell if it landed at that club while the spell ran
+  const playerTransfers = getPlayerTransfers(player.slug)
+  for (const spell of spells) {
+    const firstYear = getSeasonStartYear(spell.firstSeason)
+    const lastYear = getSeasonStartYear(spell.lastSeason) + 1
+    spell.transfers = playerTransfers.filter((transfer) => {
+      const year = Number.parseInt(transfer.date.slice(0, 4), 10)
+      return transfer.to === spell.club && year >= firstYear && year <= lastYear
+    })
+  }
+
+  return spells
+}
@@ -0,0 +1,125 @@
+import { createHash } from "node:crypto"
+import type { ZodError } from "zod"
+
+/**
+ * Public API Helpers - shared by the route handlers under app/api/.
+ *
+ * Every response is JSON with a strong ETag computed from the body, so
+ * clients that send If-None-Match get a bodiless 304 when nothing changed.
+ * Errors use one shape across endpoints:
+ *
+ *   { "error": { "code": "not_found", "message": "...", "details": [...] } }
+ */
+
+/**
+ * Data only changes when the dataset is redeployed, so CDNs may cache for an
+ * hour and keep serving the stale copy for a day while they revalidate.
+ * Browsers always revalidate (max-age=0), which the ETag makes cheap.
+ */
+export const API_CACHE_CONTROL =
+  "public, max-age=0, s-maxage=3600, stale-while-revalidate=86400"
+
+export type ApiErrorCode = "invalid_request" | "not_found"
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode
+    message: string
+    details?: string[]
+  }
+}
+
+function computeEtag(body: string): string {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`
+}
+
+/**
+ * Whether the request's If-None-Match header already covers `etag`.
+ */
+function isNotModified(request: Request, etag: string): boolean {
+  const header = request.headers.get("if-none-match")
+  if (!header) return false
+
+  return (
+    header.trim() === "*" ||
+    header
+      .split(",")
+      .some((candidate) => candidate.trim().replace(/^W\//, "") === etag)
+  )
+}
+
+/**
+ * 200 JSON response with ETag and Cache-Control, or 304 if the client's
+ * cached copy is current.
+ */
+export function jsonResponse(request: Request, data: unknown): Response {
+  const body = JSON.stringify(data)
+  const etag = computeEtag(body)
+  const headers = {
+    ETag: etag,
+    "Cache-Control": API_CACHE_CONTROL,
+  }
+
+  if (isNotModified(request, etag)) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  return new Response(body, {
+    headers: { ...headers, "Content-Type": "application/json" },
+  })
+}
+
+/**
+ * JSON error response. Errors are not cached by shared caches, so a fix to
+ * the data shows up immediately.
+ */
+export function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: string[]
+): Response {
+  const body: ApiErrorBody = {
+    error: { code, message, ...(details ? { details } : {}) },
+  }
+
+  return Response.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store" },
+  })
+}
+
+/**
+ * 400 response listing every invalid query parameter.
+ */
+export function invalidRequestResponse(error: ZodError): Response {
+  return errorResponse(
+    400,
+    "invalid_request",
+    "Invalid query parameters",
+    error.issues.map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+  )
+}
+
+/**
+ * Cursors are opaque to clients: base64url-encoded JSON.
+ */
+export function encodeCursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url")
+}
+
+/**
+ * Decodes a cursor from encodeCursor, or returns undefined if it has been
+ * tampered with or truncated.
+ */
+export function decodeCursor(cursor: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+  } catch {
+    return undefined
+  }
+}
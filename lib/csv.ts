@@ -0,0 +1,74 @@
+/**
+ * One parsed CSV record. `line` is the 1-based line the record starts on, so
+ * errors can point at the right place even when quoted fields span lines.
+ */
+export interface CsvRecord {
+  line: number
+  fields: string[]
+}
+
+/**
+ * Minimal RFC 4180 parser: comma-separated, double-quoted fields with `""`
+ * escapes, quoted line breaks, and LF or CRLF line endings. Blank lines are
+ * skipped.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = []
+  let fields: string[] = []
+  let field = ""
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const endRecord = () => {
+    fields.push(field)
+    if (fields.length > 1 || fields[0] !== "") {
+      records.push({ line: recordLine, fields })
+    }
+    fields = []
+    field = ""
+  }
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === "\n") line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      fields.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      endRecord()
+      line++
+      recordLine = line
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted field starting on line ${recordLine}`)
+  }
+  if (field !== "" || fields.length > 0) {
+    endRecord()
+  }
+
+  return records
+}
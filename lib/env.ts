@@ -0,0 +1,47 @@
+/**
+ * Deployment environment detection.
+ *
+ * Only the production deployment should be indexed by search engines: preview
+ * deployments serve the same content on throwaway URLs, and letting those get
+ * indexed creates duplicate content that competes with the real site.
+ *
+ * Resolution order:
+ * 1. SITE_ENV - set explicitly when deploying outside Vercel
+ * 2. VERCEL_ENV - "production", "preview" or "development" on Vercel
+ * 3. NODE_ENV - so `next dev` is never treated as production
+ */
+export type SiteEnvironment = "production" | "preview" | "development"
+
+export function getSiteEnvironment(): SiteEnvironment {
+  const env = process.env.SITE_ENV ?? process.env.VERCEL_ENV
+
+  if (env === "production" || env === "preview" || env === "development") {
+    return env
+  }
+
+  return process.env.NODE_ENV === "production" ? "production" : "development"
+}
+
+/**
+ * Whether search engines may index this deployment.
+ */
+export function isIndexable(): boolean {
+  return getSiteEnvironment() === "production"
+}
+
+/**
+ * Where player data is read from; see data/repository.ts.
+ *
+ * PLAYER_DATA_SOURCE=sqlite reads from the SQLite database at PLAYER_DB_PATH
+ * (default data/players.db, built with `pnpm db:build`). Anything else uses
+ * the bundled data/players.json.
+ */
+export type PlayerDataSource = "memory" | "sqlite"
+
+export function getPlayerDataSource(): PlayerDataSource {
+  return process.env.PLAYER_DATA_SOURCE === "sqlite" ? "sqlite" : "memory"
+}
+
+export function getPlayerDatabasePath(): string {
+  return process.env.PLAYER_DB_PATH ?? "data/players.db"
+}
@@ -0,0 +1,273 @@
+import {
+  getNamedType,
+  getNullableType,
+  GraphQLError,
+  isListType,
+  isObjectType,
+  Kind,
+  type ASTVisitor,
+  type FieldNode,
+  type GraphQLObjectType,
+  type OperationDefinitionNode,
+  type SelectionSetNode,
+  type ValidationContext,
+} from "graphql"
+
+/**
+ * GraphQL Query Limits
+ *
+ * Player → team → players → team... is a cycle, so without limits a single
+ * request could ask for the whole graph many times over. Both limits are
+ * validation rules: an over-limit query is rejected before any resolver runs.
+ *
+ * Introspection fields (__schema, __type) are not counted, so GraphiQL and
+ * code generators keep working.
+ */
+
+/** Deepest allowed field nesting; `team { players { seasons { goals } } }` is 4. */
+export const MAX_QUERY_DEPTH = 6
+
+/** Highest allowed estimated cost; see complexityLimitRule. */
+export const MAX_QUERY_COMPLEXITY = 5_000
+
+/**
+ * Size of a list field without a `first` argument. Matches the order of
+ * magnitude of a squad or a player's season lines; lists that take `first`
+ * are capped at this size when it is omitted.
+ */
+export const DEFAULT_LIST_SIZE = 20
+
+const isIntrospectionField = (node: FieldNode) =>
+  node.name.value.startsWith("__")
+
+/**
+ * Measures each fragment once per operation, however many times it is
+ * spread: a query of chained fragments that each spread the next one twice
+ * would otherwise take time exponential in its length. The entry is set to 0
+ * before measuring, so a fragment cycle ends at its second visit; cycles are
+ * reported by the standard NoFragmentCycles rule.
+ */
+function measureFragment(
+  cache: Map<string, number>,
+  key: string,
+  measure: () => number
+): number {
+  const cached = cache.get(key)
+  if (cached !== undefined) return cached
+
+  cache.set(key, 0)
+  const value = measure()
+  cache.set(key, value)
+  return value
+}
+
+/**
+ * Depth of a selection set, counting fields only. Stops adding up once it
+ * passes `maxDepth`, so an over-limit query is rejected without walking the
+ * rest of it.
+ */
+function depthOf(
+  context: ValidationContext,
+  selectionSet: SelectionSetNode,
+  maxDepth: number,
+  fragmentDepths: Map<string, number>
+): number {
+  let depth = 0
+
+  for (const selection of selectionSet.selections) {
+    let selectionDepth = 0
+    if (selection.kind === Kind.FIELD) {
+      if (isIntrospectionField(selection)) continue
+      selectionDepth =
+        1 +
+        (selection.selectionSet
+          ? depthOf(context, selection.selectionSet, maxDepth, fragmentDepths)
+          : 0)
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      selectionDepth = depthOf(
+        context,
+        selection.selectionSet,
+        maxDepth,
+        fragmentDepths
+      )
+    } else {
+      const name = selection.name.value
+      selectionDepth = measureFragment(fragmentDepths, name, () => {
+        const fragment = context.getFragment(name)
+        return fragment
+          ? depthOf(context, fragment.selectionSet, maxDepth, fragmentDepths)
+          : 0
+      })
+    }
+
+    depth = Math.max(depth, selectionDepth)
+    if (depth > maxDepth) break
+  }
+
+  return depth
+}
+
+/**
+ * Rejects operations nested deeper than `maxDepth` fields.
+ */
+export function depthLimitRule(maxDepth = MAX_QUERY_DEPTH) {
+  return (context: ValidationContext): ASTVisitor => ({
+    OperationDefinition(operation) {
+      const depth = depthOf(
+        context,
+        operation.selectionSet,
+        maxDepth,
+        new Map()
+      )
+      if (depth > maxDepth) {
+        context.reportError(
+          new GraphQLError(
+            `Query depth ${depth} exceeds the maximum of ${maxDepth}`,
+            { nodes: [operation] }
+          )
+        )
+      }
+    },
+  })
+}
+
+/**
+ * The operation's integer variables: the request's values, falling back to
+ * the defaults declared in the operation (`$n: Int = 500`).
+ */
+function intVariables(
+  operation: OperationDefinitionNode,
+  variables: Record<string, unknown>
+): Map<string, number> {
+  const values = new Map<string, number>()
+  for (const definition of operation.variableDefinitions ?? []) {
+    const name = definition.variable.name.value
+    const value = variables[name]
+    if (typeof value === "number") {
+      values.set(name, value)
+    } else if (
+      value === undefined &&
+      definition.defaultValue?.kind === Kind.INT
+    ) {
+      values.set(name, Number.parseInt(definition.defaultValue.value, 10))
+    }
+  }
+  return values
+}
+
+/**
+ * Reads an integer argument, from a literal or a variable.
+ */
+function intArgument(
+  field: FieldNode,
+  name: string,
+  variables: Map<string, number>
+): number | undefined {
+  const value = field.arguments?.find((arg) => arg.name.value === name)?.value
+
+  if (value?.kind === Kind.INT) return Number.parseInt(value.value, 10)
+  if (value?.kind === Kind.VARIABLE) return variables.get(value.name.value)
+  return undefined
+}
+
+interface ComplexityWalk {
+  context: ValidationContext
+  variables: Map<string, number>
+  maxComplexity: number
+  /** Cost of each fragment, keyed by fragment and parent type name. */
+  fragmentCosts: Map<string, number>
+}
+
+/**
+ * Estimated cost of a selection set; see complexityLimitRule. Like depthOf,
+ * stops adding up once it passes the limit.
+ */
+function complexityOf(
+  walk: ComplexityWalk,
+  parentType: GraphQLObjectType,
+  selectionSet: SelectionSetNode
+): number {
+  let total = 0
+
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      if (isIntrospectionField(selection)) continue
+
+      const definition = parentType.getFields()[selection.name.value]
+      // Unknown fields are reported by the standard FieldsOnCorrectType rule
+      if (!definition) continue
+
+      const fieldType = getNamedType(definition.type)
+      const childCost =
+        selection.selectionSet && isObjectType(fieldType)
+          ? complexityOf(walk, fieldType, selection.selectionSet)
+          : 0
+      // A negative `first` returns nothing, so it must not lower the estimate
+      const size = isListType(getNullableType(definition.type))
+        ? Math.max(
+            0,
+            intArgument(selection, "first", walk.variables) ?? DEFAULT_LIST_SIZE
+          )
+        : 1
+
+      total += size * (1 + childCost)
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      total += complexityOf(walk, parentType, selection.selectionSet)
+    } else {
+      const name = selection.name.value
+      total += measureFragment(
+        walk.fragmentCosts,
+        `${name}|${parentType.name}`,
+        () => {
+          const fragment = walk.context.getFragment(name)
+          return fragment
+            ? complexityOf(walk, parentType, fragment.selectionSet)
+            : 0
+        }
+      )
+    }
+
+    if (total > walk.maxComplexity) break
+  }
+
+  return total
+}
+
+/**
+ * Rejects operations whose estimated cost exceeds `maxComplexity`.
+ *
+ * Each field costs 1, and a list field multiplies the cost of everything
+ * under it by its expected length: its `first` argument, or
+ * DEFAULT_LIST_SIZE. `team(slug: "...") { players { seasons { goals } } }`
+ * therefore costs 1 × (1 + 20 × (1 + 20 × (1 + 1))) = 821.
+ */
+export function complexityLimitRule(
+  variables: Record<string, unknown> = {},
+  maxComplexity = MAX_QUERY_COMPLEXITY
+) {
+  return (context: ValidationContext): ASTVisitor => ({
+    OperationDefinition(operation) {
+      const rootType = context.getSchema().getQueryType()
+      if (!rootType) return
+
+      const complexity = complexityOf(
+        {
+          context,
+          variables: intVariables(operation, variables),
+          maxComplexity,
+          fragmentCosts: new Map(),
+        },
+        rootType,
+        operation.selectionSet
+      )
+      if (complexity > maxComplexity) {
+        context.reportError(
+          new GraphQLError(
+            `Query complexity ${complexity} exceeds the maximum of ${maxComplexity}`,
+            { nodes: [operation] }
+          )
+        )
+      }
+    },
+  })
+}
@@ -0,0 +1,331 @@
+import {
+  GraphQLBoolean,
+  GraphQLFloat,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  type GraphQLFieldConfigMap,
+  type GraphQLNullableType,
+} from "graphql"
+import type { Player, SeasonStats } from "@/data/players"
+import { getPositionLabel } from "@/data/positions"
+import { getAllNations, getNationBySlug, type Nation } from "@/data/nations"
+import { getTeamByName, getTeamBySlug, teams, type Team } from "@/data/teams"
+import { getPlayerRepository } from "@/data/repository"
+import { positionRoleValues } from "@/data/schema"
+import { DEFAULT_LIST_SIZE } from "@/lib/graphql-limits"
+import { absoluteUrl } from "@/lib/site"
+import { slugify } from "@/lib/utils"
+import {
+  assistsPerAppearance,
+  getAdvancedStats,
+  goalContributionsPerAppearance,
+  goalsPerAppearance,
+  type AdvancedStats,
+  type SampledStat,
+} from "@/lib/stats"
+
+/**
+ * GraphQL Schema - served at /api/graphql
+ *
+ * Mirrors the Player, Team and Nation data so dashboards can fetch nested
+ * data (a team's squad with every season line) in one round trip. Derived
+ * fields such as goalsPerAppearance are resolved here rather than by clients
+ * so every consumer handles players without appearances the same way.
+ *
+ * Players are read through the PlayerRepository; teams and nations come from
+ * their static modules. Every list takes a `first` argument, which the
+ * complexity limit in lib/graphql-limits.ts uses to estimate its size;
+ * without it a list returns DEFAULT_LIST_SIZE items, the size the limit
+ * assumes.
+ */
+
+const nonNull = <T extends GraphQLNullableType>(type: T) =>
+  new GraphQLNonNull(type)
+
+const listOf = <T extends GraphQLNullableType>(type: T) =>
+  nonNull(new GraphQLList(nonNull(type)))
+
+const firstArg = (items: string) => ({
+  first: {
+    type: GraphQLInt,
+    description: `Maximum number of ${items} to return. Defaults to ${DEFAULT_LIST_SIZE}.`,
+  },
+})
+
+function takeFirst<T>(items: T[], first?: number | null): T[] {
+  return items.slice(0, Math.max(0, first ?? DEFAULT_LIST_SIZE))
+}
+
+const SeasonType = new GraphQLObjectType<SeasonStats>({
+  name: "Season",
+  description: "One player's output for one club in one competition.",
+  fields: {
+    season: {
+      type: nonNull(GraphQLString),
+      description: '"2023/24" or, for calendar-year leagues, "2024".',
+    },
+    club: { type: nonNull(GraphQLString) },
+    competition: { type: nonNull(GraphQLString) },
+    goals: { type: nonNull(GraphQLInt) },
+    assists: { type: nonNull(GraphQLInt) },
+    appearances: { type: nonNull(GraphQLInt) },
+    minutes: { type: nonNull(GraphQLInt) },
+    cleanSheets: {
+      type: GraphQLInt,
+      description: "Only tracked for goalkeepers and defenders.",
+    },
+    penaltyGoals: {
+      type: GraphQLInt,
+      description: "Goals from penalties, included in goals. Null if unknown.",
+    },
+    teamGoals: {
+      type: GraphQLInt,
+      description: "Goals the club scored in the competition. Null if unknown.",
+    },
+  },
+})
+
+const SampledStatType = new GraphQLObjectType<SampledStat>({
+  name: "SampledStat",
+  description: "A derived stat with the minutes it is computed over.",
+  fields: {
+    value: {
+      type: GraphQLFloat,
+      description: "Null when undefined (e.g. no goals) or not tracked.",
+    },
+    minutes: { type: nonNull(GraphQLInt) },
+    smallSample: {
+      type: nonNull(GraphQLBoolean),
+      description: "True when computed over too few minutes to compare.",
+    },
+  },
+})
+
+const AdvancedStatsType = new GraphQLObjectType<AdvancedStats>({
+  name: "AdvancedStats",
+  fields: {
+    goalsPer90: { type: nonNull(SampledStatType) },
+    assistsPer90: { type: nonNull(SampledStatType) },
+    goalContributionsPer90: { type: nonNull(SampledStatType) },
+    nonPenaltyGoalsPer90: {
+      type: nonNull(SampledStatType),
+      description: "Over the seasons that record penalty goals.",
+    },
+    minutesPerGoal: { type: nonNull(SampledStatType) },
+    goalContributionShare: {
+      type: nonNull(SampledStatType),
+      description:
+        "Goals plus assists as a share (0-1) of team goals, over the seasons that record team goals.",
+    },
+  },
+})
+
+// Player, Team and Nation reference each other, so their fields are thunks
+const PlayerType: GraphQLObjectType<Player> = new GraphQLObjectType<Player>({
+  name: "Player",
+  fields: (): GraphQLFieldConfigMap<Player, unknown> => ({
+    name: { type: nonNull(GraphQLString) },
+    slug: { type: nonNull(GraphQLString) },
+    url: {
+      type: nonNull(GraphQLString),
+      resolve: (player) => absoluteUrl(`/players/${player.slug}`),
+    },
+    teamName: {
+      type: nonNull(GraphQLString),
+      resolve: (player) => player.team,
+    },
+    team: {
+      type: TeamType,
+      description: "Null if the current team has no page on the site.",
+      resolve: (player) => getTeamByName(player.team),
+    },
+    position: {
+      type: nonNull(GraphQLString),
+      description: `One of: ${positionRoleValues.join(", ")}.`,
+    },
+    positionLabel: {
+      type: nonNull(GraphQLString),
+      resolve: (player) => getPositionLabel(player.position),
+    },
+    nationalityName: {
+      type: nonNull(GraphQLString),
+      resolve: (player) => player.nationality,
+    },
+    nationality: {
+      type: nonNull(NationType),
+      resolve: (player): Nation => ({
+        name: player.nationality,
+        slug: slugify(player.nationality),
+      }),
+    },
+    age: { type: nonNull(GraphQLInt) },
+    goals: { type: nonNull(GraphQLInt) },
+    assists: { type: nonNull(GraphQLInt) },
+    appearances: { type: nonNull(GraphQLInt) },
+    minutes: { type: nonNull(GraphQLInt) },
+    cleanSheets: { type: nonNull(GraphQLInt) },
+    goalsPerAppearance: {
+      type: nonNull(GraphQLFloat),
+      resolve: goalsPerAppearance,
+    },
+    assistsPerAppearance: {
+      type: nonNull(GraphQLFloat),
+      resolve: assistsPerAppearance,
+    },
+    goalContributionsPerAppearance: {
+      type: nonNull(GraphQLFloat),
+      description: "Goals plus assists per appearance.",
+      resolve: goalContributionsPerAppearance,
+    },
+    advancedStats: {
+      type: nonNull(AdvancedStatsType),
+      resolve: getAdvancedStats,
+    },
+    image: { type: nonNull(GraphQLString) },
+    description: { type: nonNull(GraphQLString) },
+    updatedAt: {
+      type: nonNull(GraphQLString),
+      description: "ISO 8601 date the stats were last refreshed.",
+    },
+    seasons: {
+      type: listOf(SeasonType),
+      args: firstArg("season lines"),
+      resolve: (player, { first }: { first?: number | null }) =>
+        takeFirst(player.seasons, first),
+    },
+  }),
+})
+
+const TeamType: GraphQLObjectType<Team> = new GraphQLObjectType<Team>({
+  name: "Team",
+  fields: (): GraphQLFieldConfigMap<Team, unknown> => ({
+    name: { type: nonNull(GraphQLString) },
+    slug: { type: nonNull(GraphQLString) },
+    url: {
+      type: nonNull(GraphQLString),
+      resolve: (team) => absoluteUrl(`/teams/${team.slug}`),
+    },
+    league: { type: nonNull(GraphQLString) },
+    country: { type: nonNull(GraphQLString) },
+    crest: {
+      type: GraphQLString,
+      description: "Path to the crest image. Null until one is available.",
+    },
+    players: {
+      type: listOf(PlayerType),
+      description: "Current squad.",
+      args: firstArg("players"),
+      resolve: async (team, { first }: { first?: number | null }) =>
+        takeFirst(
+          await getPlayerRepository().filter({ team: team.name }),
+          first
+        ),
+    },
+  }),
+})
+
+const NationType: GraphQLObjectType<Nation> = new GraphQLObjectType<Nation>({
+  name: "Nation",
+  fields: (): GraphQLFieldConfigMap<Nation, unknown> => ({
+    name: { type: nonNull(GraphQLString) },
+    slug: { type: nonNull(GraphQLString) },
+    url: {
+      type: nonNull(GraphQLString),
+      resolve: (nation) => absoluteUrl(`/nations/${nation.slug}`),
+    },
+    players: {
+      type: listOf(PlayerType),
+      args: firstArg("players"),
+      resolve: async (nation, { first }: { first?: number | null }) =>
+        takeFirst(
+          await getPlayerRepository().filter({ nationality: nation.name }),
+          first
+        ),
+    },
+  }),
+})
+
+const QueryType = new GraphQLObjectType({
+  name: "Query",
+  fields: {
+    players: {
+      type: listOf(PlayerType),
+      args: {
+        ...firstArg("players"),
+        team: { type: GraphQLString, description: "Team slug." },
+        nationality: { type: GraphQLString, description: "Nation slug." },
+        position: {
+          type: GraphQLString,
+          description: `Position role, one of: ${positionRoleValues.join(", ")}.`,
+        },
+      },
+      resolve: async (
+        _root,
+        args: {
+          first?: number | null
+          team?: string | null
+          nationality?: string | null
+          position?: string | null
+        }
+      ) => {
+        const team = args.team ? getTeamBySlug(args.team) : undefined
+        const nation = args.nationality
+          ? await getNationBySlug(args.nationality)
+          : undefined
+        const position = positionRoleValues.find(
+          (role) => role === args.position
+        )
+
+        // An unknown slug or role matches nobody rather than being ignored
+        if (
+          (args.team && !team) ||
+          (args.nationality && !nation) ||
+          (args.position && !position)
+        ) {
+          return []
+        }
+
+        const players = await getPlayerRepository().filter({
+          team: team?.name,
+          nationality: nation?.name,
+          position,
+        })
+        return takeFirst(players, args.first)
+      },
+    },
+    player: {
+      type: PlayerType,
+      args: { slug: { type: nonNull(GraphQLString) } },
+      resolve: (_root, { slug }: { slug: string }) =>
+        getPlayerRepository().getBySlug(slug),
+    },
+    teams: {
+      type: listOf(TeamType),
+      args: firstArg("teams"),
+      resolve: (_root, { first }: { first?: number | null }) =>
+        takeFirst(teams, first),
+    },
+    team: {
+      type: TeamType,
+      args: { slug: { type: nonNull(GraphQLString) } },
+      resolve: (_root, { slug }: { slug: string }) => getTeamBySlug(slug),
+    },
+    nations: {
+      type: listOf(NationType),
+      args: firstArg("nations"),
+      resolve: async (_root, { first }: { first?: number | null }) =>
+        takeFirst(await getAllNations(), first),
+    },
+    nation: {
+      type: NationType,
+      args: { slug: { type: nonNull(GraphQLString) } },
+      resolve: (_root, { slug }: { slug: string }) => getNationBySlug(slug),
+    },
+  },
+})
+
+export const graphqlSchema = new GraphQLSchema({ query: QueryType })
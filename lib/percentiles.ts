@@ -0,0 +1,185 @@
+import type { Player } from "@/data/players"
+import {
+  formatMetricValue,
+  getPositionGroup,
+  getPositionMetrics,
+  positionGroups,
+} from "@/data/positions"
+import {
+  advancedStatDefinitions,
+  formatAdvancedStat,
+  getAdvancedStats,
+  type AdvancedStats,
+} from "@/lib/stats"
+
+/**
+ * Percentile Ranks - a player's stats against positional peers
+ *
+ * Peers are players in the same position group (forwards against forwards),
+ * so a winger's goal rate isn't judged against centre-backs. Only peers with
+ * enough minutes behind a stat are ranked on it, and the peer count is
+ * reported with every rank so readers can judge how much it means.
+ */
+
+/**
+ * Minutes a player needs behind a stat to be ranked on it: ten full
+ * matches. Below this, rates swing too much to compare.
+ */
+export const PERCENTILE_MIN_MINUTES = 900
+
+/**
+ * Smallest peer group, the player included, worth ranking against.
+ */
+export const MIN_PEER_GROUP_SIZE = 3
+
+export interface PercentileRank {
+  key: string
+  label: string
+  /** The player's value, formatted for display. */
+  display: string
+  /** 0-100, or null when the player isn't ranked (see `unrankedReason`). */
+  percentile: number | null
+  /** Qualifying players in the peer group, the player included. */
+  peerCount: number
+  unrankedReason?: "no-value" | "below-minimum" | "few-peers"
+}
+
+/** A player with their advanced stats, computed once before ranking. */
+interface RankedPlayer {
+  player: Player
+  advanced: AdvancedStats
+}
+
+interface RankedMetric {
+  key: string
+  label: string
+  display: (ranked: RankedPlayer) => string
+  /** The value and the minutes it is computed over. */
+  sample: (ranked: RankedPlayer) => { value: number | null; minutes: number }
+  lowerIsBetter: boolean
+}
+
+/**
+ * Every metric on the player profile: the position group's headline stats,
+ * then the minutes-based stats from lib/stats.ts.
+ */
+function getRankedMetrics(player: Player): RankedMetric[] {
+  const headline: RankedMetric[] = getPositionMetrics(player.position).map(
+    (metric) => ({
+      key: metric.key,
+      label: metric.label,
+      display: ({ player: p }) => formatMetricValue(metric, p),
+      sample: ({ player: p }) => ({
+        value: metric.value(p),
+        minutes: p.minutes,
+      }),
+      lowerIsBetter: false,
+    })
+  )
+  const advanced: RankedMetric[] = advancedStatDefinitions.map(
+    (definition) => ({
+      key: definition.key,
+      label: definition.label,
+      display: ({ advanced }) =>
+        formatAdvancedStat(definition, advanced[definition.key]),
+      sample: ({ advanced }) => advanced[definition.key],
+      lowerIsBetter: definition.lowerIsBetter ?? false,
+    })
+  )
+
+  return [...headline, ...advanced]
+}
+
+/**
+ * Share of the peer group the value beats, counting ties as half, on a 0-100
+ * scale. `values` must include the player's own value.
+ */
+function percentileOf(
+  value: number,
+  values: number[],
+  lowerIsBetter: boolean
+): number {
+  let below = 0
+  let equal = 0
+  for (const other of values) {
+    if (other === value) equal += 1
+    else if (lowerIsBetter ? other > value : other < value) below += 1
+  }
+
+  return ((below + (equal - 1) / 2) / Math.max(1, values.length - 1)) * 100
+}
+
+/**
+ * The player's percentile on every profile metric among the players of the
+ * same position group in `allPlayers`.
+ */
+export function getPercentileRanks(
+  player: Player,
+  allPlayers: Player[]
+): PercentileRank[] {
+  const group = getPositionGroup(player.position)
+  const toRanked = (p: Player): RankedPlayer => ({
+    player: p,
+    advanced: getAdvancedStats(p),
+  })
+  const peers = allPlayers
+    .filter((p) => getPositionGroup(p.position) === group)
+    .map(toRanked)
+  const ranked = toRanked(player)
+
+  return getRankedMetrics(player).map((metric) => {
+    const qualifying = peers
+      .map(metric.sample)
+      .filter(
+        (sample): sample is { value: number; minutes: number } =>
+          sample.value !== null && sample.minutes >= PERCENTILE_MIN_MINUTES
+      )
+    const own = metric.sample(ranked)
+    const rank = {
+      key: metric.key,
+      label: metric.label,
+      display: metric.display(ranked),
+      peerCount: qualifying.length,
+    }
+
+    if (own.value === null) {
+      return { ...rank, percentile: null, unrankedReason: "no-value" }
+    }
+    if (own.minutes < PERCENTILE_MIN_MINUTES) {
+      return { ...rank, percentile: null, unrankedReason: "below-minimum" }
+    }
+    if (qualifying.length < MIN_PEER_GROUP_SIZE) {
+      return { ...rank, percentile: null, unrankedReason: "few-peers" }
+    }
+
+    return {
+      ...rank,
+      percentile: Math.round(
+        percentileOf(
+          own.value,
+          qualifying.map((sample) => sample.value),
+          metric.lowerIsBetter
+        )
+      ),
+    }
+  })
+}
+
+/**
+ * Plural label of the peer group a player is ranked in, e.g. "Forwards".
+ */
+export function getPeerGroupLabel(player: Player): string {
+  return positionGroups[getPositionGroup(player.position)].pluralLabel
+}
+
+/**
+ * English ordinal for a percentile: 1 → "1st", 72 → "72nd", 13 → "13th".
+ */
+export function formatOrdinal(value: number): string {
+  const lastTwo = value % 100
+  const suffixes: Record<number, string> = { 1: "st", 2: "nd", 3: "rd" }
+  const suffix =
+    lastTwo >= 11 && lastTwo <= 13 ? "th" : (suffixes[value % 10] ?? "th")
+
+  return `${value}${suffix}`
+}
@@ -0,0 +1,131 @@
+import { foldText } from "@/lib/utils"
+
+/**
+ * Homepage player grid state, shared by the server page and the client grid.
+ *
+ * The page filters with these helpers so the server HTML of a URL such as
+ * /?position=winger&team=real-madrid already contains only the matching
+ * cards; the grid then re-filters on the client as the controls change.
+ * Filter values are the same slugs used in /teams, /nations and /positions
+ * URLs.
+ */
+
+/**
+ * Players in the homepage grid: the top scorers, so the page stays the same
+ * size however big the dataset gets. /players lists everyone.
+ */
+export const PLAYER_GRID_SIZE = 24
+
+/**
+ * The fields the grid filters and sorts on. Kept flat and small so the page
+ * doesn't ship whole player records (season lines included) to the client.
+ */
+export interface PlayerGridItem {
+  slug: string
+  name: string
+  teamSlug: string
+  nationSlug: string
+  position: string
+  goals: number
+  assists: number
+  appearances: number
+  age: number
+  goalContributionsPerAppearance: number
+}
+
+/** The grid's query string parameters, as read from the URL. */
+export interface PlayerGridParams {
+  q?: string
+  position?: string
+  nationality?: string
+  team?: string
+  sort?: string
+}
+
+export const playerGridSortOptions = [
+  { value: "goals", label: "Goals" },
+  { value: "assists", label: "Assists" },
+  { value: "appearances", label: "Apps" },
+  { value: "age", label: "Youngest" },
+  { value: "ga-per-app", label: "G+A per App" },
+] as const
+
+export type PlayerGridSort = (typeof playerGridSortOptions)[number]["value"]
+
+export const DEFAULT_PLAYER_GRID_SORT: PlayerGridSort = "goals"
+
+export interface PlayerGridState {
+  query: string
+  /** Unset filters match every player. */
+  position?: string
+  nationality?: string
+  team?: string
+  sort: PlayerGridSort
+}
+
+const sorters: Record<
+  PlayerGridSort,
+  (a: PlayerGridItem, b: PlayerGridItem) => number
+> = {
+  goals: (a, b) => b.goals - a.goals,
+  assists: (a, b) => b.assists - a.assists,
+  appearances: (a, b) => b.appearances - a.appearances,
+  age: (a, b) => a.age - b.age,
+  "ga-per-app": (a, b) =>
+    b.goalContributionsPerAppearance - a.goalContributionsPerAppearance,
+}
+
+/**
+ * Reads the grid state from the query string. An unknown sort falls back to
+ * the default; empty values count as unset.
+ */
+export function parsePlayerGridParams(
+  params: PlayerGridParams
+): PlayerGridState {
+  const sort = playerGridSortOptions.find(
+    (option) => option.value === params.sort
+  )
+
+  return {
+    query: params.q ?? "",
+    position: params.position || undefined,
+    nationality: params.nationality || undefined,
+    team: params.team || undefined,
+    sort: sort?.value ?? DEFAULT_PLAYER_GRID_SORT,
+  }
+}
+
+/**
+ * The items matching every set filter and the name search, in sort order.
+ */
+export function filterPlayerGridItems(
+  items: PlayerGridItem[],
+  state: PlayerGridState
+): PlayerGridItem[] {
+  const query = foldText(state.query.trim())
+
+  return items
+    .filter(
+      (item) =>
+        (!state.position || item.position === state.position) &&
+        (!state.nationality || item.nationSlug === state.nationality) &&
+        (!state.team || item.teamSlug === state.team) &&
+        (query === "" || foldText(item.name).includes(query))
+    )
+    .sort(sorters[state.sort])
+}
+
+/**
+ * Canonical URL of a filtered view. Position, nationality and team each
+ * select a distinct set of players and stay in the URL; the name search and
+ * sort order only narrow or reorder the same view and are dropped.
+ */
+export function getPlayerGridCanonical(state: PlayerGridState): string {
+  const search = new URLSearchParams({
+    ...(state.position && { position: state.position }),
+    ...(state.nationality && { nationality: state.nationality }),
+    ...(state.team && { team: state.team }),
+  }).toString()
+
+  return search ? `/?${search}` : "/"
+}
@@ -0,0 +1,42 @@
+/**
+ * Paginated player index at /players.
+ *
+ * Page 1 lives at /players and later pages at /players/page/2, /players/page/3
+ * and so on: plain path segments rather than a query string, so every page
+ * can be pre-rendered and linked with rel="prev"/"next".
+ */
+
+export const PLAYERS_PER_PAGE = 24
+
+export function getPlayerIndexHref(page: number): string {
+  return page <= 1 ? "/players" : `/players/page/${page}`
+}
+
+/**
+ * Number of pages needed for `total` players; an empty index still has one.
+ */
+export function getPlayerIndexPageCount(total: number): number {
+  return Math.max(1, Math.ceil(total / PLAYERS_PER_PAGE))
+}
+
+/**
+ * Page numbers to show in the pagination bar: the first and last pages, the
+ * current page and its neighbours, with "ellipsis" standing in for gaps.
+ * `getPaginationItems(6, 12)` → [1, "ellipsis", 5, 6, 7, "ellipsis", 12].
+ */
+export function getPaginationItems(
+  page: number,
+  pageCount: number
+): (number | "ellipsis")[] {
+  const items: (number | "ellipsis")[] = []
+
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= 1) {
+      items.push(n)
+    } else if (items.at(-1) !== "ellipsis") {
+      items.push("ellipsis")
+    }
+  }
+
+  return items
+}
@@ -0,0 +1,291 @@
+import type { Player } from "@/data/players"
+import { getPositionLabel } from "@/data/positions"
+import { getPlayerRepository } from "@/data/repository"
+import { foldText } from "@/lib/utils"
+
+/**
+ * Full-text player search behind /search.
+ *
+ * An inverted index maps every term to the players whose fields contain it,
+ * weighted by which field it came from: a match on a name counts for more
+ * than one buried in a description. Queries are scored TF-IDF style, so a
+ * rare term ("Nassr") outranks a common one ("Madrid").
+ *
+ * Everything is accent- and case-insensitive: "vinicius" finds "Vinícius".
+ */
+
+type SearchField = "name" | "team" | "nationality" | "position" | "description"
+
+const fieldWeights: Record<SearchField, number> = {
+  name: 10,
+  team: 4,
+  nationality: 4,
+  position: 3,
+  description: 1,
+}
+
+// Too common in descriptions to say anything about relevance
+const stopWords = new Set([
+  "a",
+  "an",
+  "and",
+  "as",
+  "at",
+  "by",
+  "for",
+  "from",
+  "has",
+  "he",
+  "his",
+  "in",
+  "is",
+  "of",
+  "on",
+  "the",
+  "to",
+  "with",
+])
+
+/** Query terms shorter than this only match whole words, not prefixes. */
+const MIN_PREFIX_LENGTH = 3
+
+/** A prefix match ("haa" → "haaland") is worth this much of an exact one. */
+const PREFIX_MATCH_WEIGHT = 0.5
+
+export interface SearchIndex {
+  players: Map<string, Player>
+  /** term → player slug → summed field weight of every occurrence */
+  postings: Map<string, Map<string, number>>
+  /** Terms that appear in player names, the vocabulary for "did you mean". */
+  nameTerms: Set<string>
+}
+
+export interface SearchResult {
+  player: Player
+  score: number
+  /** Query terms that matched this player, for highlighting. */
+  matchedTerms: string[]
+}
+
+/**
+ * Splits text into folded search terms: "Vinícius Júnior" → ["vinicius",
+ * "junior"]. Stop words are dropped.
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term !== "" && !stopWords.has(term))
+}
+
+function searchableFields(player: Player): Record<SearchField, string> {
+  return {
+    name: player.name,
+    team: player.team,
+    nationality: player.nationality,
+    position: getPositionLabel(player.position),
+    description: player.description,
+  }
+}
+
+export function buildSearchIndex(players: Player[]): SearchIndex {
+  const index: SearchIndex = {
+    players: new Map(),
+    postings: new Map(),
+    nameTerms: new Set(),
+  }
+
+  for (const player of players) {
+    index.players.set(player.slug, player)
+
+    const fields = searchableFields(player)
+    for (const field of Object.keys(fields) as SearchField[]) {
+      for (const term of tokenize(fields[field])) {
+        const posting = index.postings.get(term) ?? new Map<string, number>()
+        posting.set(
+          player.slug,
+          (posting.get(player.slug) ?? 0) + fieldWeights[field]
+        )
+        index.postings.set(term, posting)
+
+        if (field === "name") index.nameTerms.add(term)
+      }
+    }
+  }
+
+  return index
+}
+
+/**
+ * Whether an indexed word matches a query term: exactly, or by prefix once
+ * the query term is long enough that a prefix means something.
+ */
+export function matchesTerm(word: string, queryTerm: string): boolean {
+  return (
+    word === queryTerm ||
+    (queryTerm.length >= MIN_PREFIX_LENGTH && word.startsWith(queryTerm))
+  )
+}
+
+/**
+ * Ranks players against a free-text query.
+ *
+ * Players matching more of the query's terms always come first; within the
+ * same number of matched terms, higher TF-IDF score wins, then name order.
+ */
+export function searchPlayers(
+  index: SearchIndex,
+  query: string
+): SearchResult[] {
+  const queryTerms = Array.from(new Set(tokenize(query)))
+  const scores = new Map<string, { score: number; matched: Set<string> }>()
+  const playerCount = index.players.size
+
+  for (const queryTerm of queryTerms) {
+    for (const [term, posting] of index.postings) {
+      if (!matchesTerm(term, queryTerm)) continue
+
+      const idf = Math.log(1 + playerCount / posting.size)
+      const weight = term === queryTerm ? 1 : PREFIX_MATCH_WEIGHT
+
+      for (const [slug, termWeight] of posting) {
+        const entry = scores.get(slug) ?? { score: 0, matched: new Set() }
+        entry.score += termWeight * idf * weight
+        entry.matched.add(queryTerm)
+        scores.set(slug, entry)
+      }
+    }
+  }
+
+  return Array.from(scores, ([slug, { score, matched }]) => ({
+    player: index.players.get(slug) as Player,
+    score,
+    matchedTerms: Array.from(matched),
+  })).sort(
+    (a, b) =>
+      b.matchedTerms.length - a.matchedTerms.length ||
+      b.score - a.score ||
+      a.player.name.localeCompare(b.player.name)
+  )
+}
+
+/**
+ * Levenshtein distance, with an early exit once it exceeds `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    if (Math.min(...current) > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * "Did you mean" for misspelled player names: every query term that matches
+ * nothing in the index is swapped for the closest term from a player name,
+ * allowing one typo in short words and two in longer ones.
+ *
+ * Returns the corrected query, or null when nothing needed correcting or no
+ * close enough name was found.
+ */
+export function suggestQuery(index: SearchIndex, query: string): string | null {
+  const terms = foldText(query)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+  let changed = false
+
+  const corrected = terms.map((term) => {
+    const known = Array.from(index.postings.keys()).some((word) =>
+      matchesTerm(word, term)
+    )
+    if (known || stopWords.has(term)) return term
+
+    const maxDistance = term.length <= 4 ? 1 : 2
+    let best: { term: string; distance: number } | undefined
+    for (const candidate of index.nameTerms) {
+      const distance = editDistance(term, candidate, maxDistance)
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { term: candidate, distance }
+      }
+    }
+
+    if (!best) return term
+    changed = true
+    return best.term
+  })
+
+  return changed ? corrected.join(" ") : null
+}
+
+/**
+ * What the header's search palette shows for each result; kept small so
+ * /api/search responses stay light.
+ */
+export interface PlayerSearchEntry {
+  slug: string
+  name: string
+  team: string
+  nationality: string
+  positionLabel: string
+}
+
+export function toPlayerSearchEntry(player: Player): PlayerSearchEntry {
+  return {
+    slug: player.slug,
+    name: player.name,
+    team: player.team,
+    nationality: player.nationality,
+    positionLabel: getPositionLabel(player.position),
+  }
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Splits text into segments, flagging the words that match any of the given
+ * (already folded) query terms, so the page can wrap them in <mark>.
+ */
+export function highlight(text: string, terms: string[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let lastIndex = 0
+
+  for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const folded = foldText(word[0])
+    if (!terms.some((term) => matchesTerm(folded, term))) continue
+
+    if (word.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, word.index), match: false })
+    }
+    segments.push({ text: word[0], match: true })
+    lastIndex = word.index + word[0].length
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), match: false })
+  }
+  return segments
+}
+
+let searchIndex: Promise<SearchIndex> | undefined
+
+/**
+ * The index over every player in the repository, built once per server
+ * process.
+ */
+export function getSearchIndex(): Promise<SearchIndex> {
+  searchIndex ??= getPlayerRepository().list().then(buildSearchIndex)
+  return searchIndex
+}
@@ -0,0 +1,49 @@
+/**
+ * Site Configuration
+ *
+ * Single source of truth for the site's identity: every canonical URL,
+ * Open Graph tag, JSON-LD node, sitemap entry and robots.txt line is built
+ * from these values, so moving to a new domain is a one-line change.
+ *
+ * The base URL is read from NEXT_PUBLIC_SITE_URL so each deployment can
+ * point at its own domain; the default is the public production domain.
+ */
+export interface SiteConfig {
+  /** Brand name, used in titles and as the Open Graph site name. */
+  name: string
+  /** Default meta description for pages without their own. */
+  description: string
+  /** Absolute origin without a trailing slash, e.g. "https://example.com". */
+  url: string
+  /** BCP 47 language tag for <html lang>. */
+  defaultLocale: string
+  /** og:locale, which takes language_TERRITORY form, e.g. "en_US". */
+  ogLocale: string
+  social: {
+    /** Twitter / X handle including the "@". */
+    twitter: string
+  }
+}
+
+export const siteConfig: SiteConfig = {
+  name: "FootballStats",
+  description:
+    "Explore comprehensive football player statistics, profiles, and performance analysis for top soccer players worldwide.",
+  url: (
+    process.env.NEXT_PUBLIC_SITE_URL ?? "https://footballstats.vercel.app"
+  ).replace(/\/+$/, ""),
+  defaultLocale: "en",
+  ogLocale: "en_US",
+  social: {
+    twitter: "@footballstats",
+  },
+}
+
+/**
+ * Resolves a site path ("/players/lionel-messi") to an absolute URL.
+ * Metadata can use relative paths (resolved via metadataBase), but JSON-LD,
+ * sitemaps and robots.txt need absolute ones.
+ */
+export function absoluteUrl(path = "/"): string {
+  return path === "/" ? siteConfig.url : `${siteConfig.url}${path}`
+}
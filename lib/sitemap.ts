@@ -0,0 +1,206 @@
+import type { MetadataRoute } from "next"
+import { getLatestUpdate } from "@/data/players"
+import { getPlayerRepository } from "@/data/repository"
+import { getFormerTeamPlayers, getTeamSquad, teams } from "@/data/teams"
+import { getAllNations, getNationPlayers } from "@/data/nations"
+import {
+  getAllPositionSlugs,
+  getPositionBySlug,
+  getPositionPlayers,
+} from "@/data/positions"
+import { getComparison, getFeaturedComparisonSlugs } from "@/data/comparisons"
+import { getAllLeaderboardSlugs } from "@/data/leaderboards"
+import {
+  getAllCompetitionSlugs,
+  getCompetitionBySlug,
+  getCompetitionPlayers,
+} from "@/data/competitions"
+import { transfers } from "@/data/transfers"
+import { getPlayerMatchLog, getPlayersWithMatchLogs } from "@/data/matches"
+import { absoluteUrl } from "@/lib/site"
+import {
+  getPlayerIndexHref,
+  getPlayerIndexPageCount,
+  PLAYERS_PER_PAGE,
+} from "@/lib/player-index"
+
+/**
+ * The sitemaps.org protocol caps a single sitemap file at 50,000 URLs.
+ */
+export const SITEMAP_URL_LIMIT = 50_000
+
+/**
+ * Every indexable URL on the site, in a stable order.
+ *
+ * lastModified comes from the data rather than the build time: a player page
+ * changes when that player's stats do, and a hub page changes when any of the
+ * players it lists does. Crawlers use this to skip pages that haven't moved.
+ *
+ * New hub pages should add their URLs here so they are discovered.
+ */
+export async function getSitemapEntries(): Promise<MetadataRoute.Sitemap> {
+  const players = await getPlayerRepository().list()
+
+  const home: MetadataRoute.Sitemap = [
+    {
+      url: absoluteUrl(),
+      lastModified: getLatestUpdate(players),
+      changeFrequency: "daily",
+      priority: 1,
+    },
+  ]
+
+  const playerPages: MetadataRoute.Sitemap = players.map((player) => ({
+    url: absoluteUrl(`/players/${player.slug}`),
+    lastModified: new Date(player.updatedAt),
+    changeFrequency: "weekly",
+    priority: 0.9,
+  }))
+
+  const gameLogPages: MetadataRoute.Sitemap = getPlayersWithMatchLogs().map(
+    (slug) => ({
+      url: absoluteUrl(`/players/${slug}/matches`),
+      lastModified: new Date(getPlayerMatchLog(slug)[0].match.date),
+      changeFrequency: "weekly",
+      priority: 0.6,
+    })
+  )
+
+  const playerIndexPages: MetadataRoute.Sitemap = Array.from(
+    { length: getPlayerIndexPageCount(players.length) },
+    (_, i) => ({
+      url: absoluteUrl(getPlayerIndexHref(i + 1)),
+      lastModified: getLatestUpdate(
+        players.slice(i * PLAYERS_PER_PAGE, (i + 1) * PLAYERS_PER_PAGE)
+      ),
+      changeFrequency: "weekly",
+      priority: 0.8,
+    })
+  )
+
+  const teamPages: MetadataRoute.Sitemap = await Promise.all(
+    teams.map(async (team) => ({
+      url: absoluteUrl(`/teams/${team.slug}`),
+      lastModified: getLatestUpdate([
+        ...(await getTeamSquad(team)),
+        ...(await getFormerTeamPlayers(team)),
+      ]),
+      changeFrequency: "weekly" as const,
+      priority: 0.7,
+    }))
+  )
+
+  const competitionPages: MetadataRoute.Sitemap = await Promise.all(
+    getAllCompetitionSlugs().map(async (slug) => {
+      const competition = getCompetitionBySlug(slug)
+
+      return {
+        url: absoluteUrl(`/competitions/${slug}`),
+        lastModified: getLatestUpdate(
+          competition ? await getCompetitionPlayers(competition) : []
+        ),
+        changeFrequency: "weekly" as const,
+        priority: 0.7,
+      }
+    })
+  )
+
+  const nationPages: MetadataRoute.Sitemap = await Promise.all(
+    (await getAllNations()).map(async (nation) => ({
+      url: absoluteUrl(`/nations/${nation.slug}`),
+      lastModified: getLatestUpdate(await getNationPlayers(nation)),
+      changeFrequency: "weekly" as const,
+      priority: 0.6,
+    }))
+  )
+
+  const positionPages: MetadataRoute.Sitemap = await Promise.all(
+    (await getAllPositionSlugs()).map(async (slug) => {
+      const position = getPositionBySlug(slug)
+
+      return {
+        url: absoluteUrl(`/positions/${slug}`),
+        lastModified: getLatestUpdate(
+          position ? await getPositionPlayers(position) : []
+        ),
+        changeFrequency: "weekly" as const,
+        priority: 0.6,
+      }
+    })
+  )
+
+  // Featured pairs only; the rest are thin pages not worth submitting
+  const comparisonPages: MetadataRoute.Sitemap = await Promise.all(
+    getFeaturedComparisonSlugs(players).map(async (slug) => ({
+      url: absoluteUrl(`/compare/${slug}`),
+      lastModified: getLatestUpdate((await getComparison(slug))?.players ?? []),
+      changeFrequency: "weekly" as const,
+      priority: 0.5,
+    }))
+  )
+
+  // Leaderboards rank every player, so any update can move them
+  const leaderboardPages: MetadataRoute.Sitemap = getAllLeaderboardSlugs().map(
+    (slug) => ({
+      url: absoluteUrl(`/leaderboards/${slug}`),
+      lastModified: getLatestUpdate(players),
+      changeFrequency: "weekly",
+      priority: 0.6,
+    })
+  )
+
+  const transferPages: MetadataRoute.Sitemap = [
+    {
+      url: absoluteUrl("/transfers"),
+      lastModified: new Date(transfers.at(-1)?.date ?? 0),
+      changeFrequency: "weekly",
+      priority: 0.5,
+    },
+  ]
+
+  return [
+    ...home,
+    ...playerPages,
+    ...gameLogPages,
+    ...playerIndexPages,
+    ...teamPages,
+    ...competitionPages,
+    ...nationPages,
+    ...positionPages,
+    ...comparisonPages,
+    ...leaderboardPages,
+    ...transferPages,
+  ]
+}
+
+/**
+ * Number of sitemap files needed to stay under the per-file URL limit.
+ */
+export async function getSitemapCount(): Promise<number> {
+  const entries = await getSitemapEntries()
+  return Math.max(1, Math.ceil(entries.length / SITEMAP_URL_LIMIT))
+}
+
+/**
+ * The entries that belong in sitemap file number `id` (zero-based).
+ */
+export async function getSitemapChunk(
+  id: number
+): Promise<MetadataRoute.Sitemap> {
+  const start = id * SITEMAP_URL_LIMIT
+  return (await getSitemapEntries()).slice(start, start + SITEMAP_URL_LIMIT)
+}
+
+/**
+ * Public URL of sitemap file number `id`, as served by app/sitemap.ts.
+ */
+export function getSitemapUrl(id: number): string {
+  return absoluteUrl(`/sitemap/${id}.xml`)
+}
+
+/**
+ * Public URL of the sitemap index served by app/sitemap.xml/route.ts.
+ */
+export function getSitemapIndexUrl(): string {
+  return absoluteUrl(`/sitemap.xml`)
+}
@@ -0,0 +1,213 @@
+import type { Player } from "@/data/players"
+
+/**
+ * Divides a counting stat by appearances. Players without any appearances
+ * get 0 rather than NaN or Infinity so rankings stay sortable.
+ */
+export function perAppearance(value: number, appearances: number): number {
+  return appearances > 0 ? value / appearances : 0
+}
+
+/**
+ * Goals plus assists — the headline attacking output of a player.
+ */
+export function goalContributions(player: Player): number {
+  return player.goals + player.assists
+}
+
+export function goalsPerAppearance(player: Player): number {
+  return perAppearance(player.goals, player.appearances)
+}
+
+export function assistsPerAppearance(player: Player): number {
+  return perAppearance(player.assists, player.appearances)
+}
+
+export function goalContributionsPerAppearance(player: Player): number {
+  return perAppearance(goalContributions(player), player.appearances)
+}
+
+export interface PlayerRatios {
+  goalsPerAppearance: number
+  assistsPerAppearance: number
+  goalContributionsPerAppearance: number
+}
+
+/**
+ * Every derived rate stat for a player, e.g. for API responses.
+ */
+export function getPlayerRatios(player: Player): PlayerRatios {
+  return {
+    goalsPerAppearance: goalsPerAppearance(player),
+    assistsPerAppearance: assistsPerAppearance(player),
+    goalContributionsPerAppearance: goalContributionsPerAppearance(player),
+  }
+}
+
+/**
+ * Rates computed over fewer minutes than this — five full matches — are
+ * flagged as small samples: a single goal moves them too far to compare.
+ */
+export const SMALL_SAMPLE_MINUTES = 450
+
+/**
+ * A derived stat together with the playing time behind it. `value` is null
+ * when the stat is undefined (no minutes played, or no goals for minutes per
+ * goal) or when its inputs aren't tracked for any of the player's seasons.
+ */
+export interface SampledStat {
+  value: number | null
+  /** Minutes of play the value is computed over. */
+  minutes: number
+  /** True when `minutes` is below SMALL_SAMPLE_MINUTES. */
+  smallSample: boolean
+}
+
+function sampled(value: number | null, minutes: number): SampledStat {
+  return { value, minutes, smallSample: minutes < SMALL_SAMPLE_MINUTES }
+}
+
+/**
+ * Scales a counting stat to a rate per 90 minutes. Null without minutes,
+ * where perAppearance falls back to 0, so "no data" can't pass for "none".
+ */
+export function per90(value: number, minutes: number): number | null {
+  return minutes > 0 ? (value * 90) / minutes : null
+}
+
+export function goalsPer90(player: Player): SampledStat {
+  return sampled(per90(player.goals, player.minutes), player.minutes)
+}
+
+export function assistsPer90(player: Player): SampledStat {
+  return sampled(per90(player.assists, player.minutes), player.minutes)
+}
+
+export function goalContributionsPer90(player: Player): SampledStat {
+  return sampled(
+    per90(goalContributions(player), player.minutes),
+    player.minutes
+  )
+}
+
+/**
+ * Goals minus penalties per 90, over the season lines that record penalty
+ * goals. Seasons without penalty data are left out rather than assumed to
+ * have none.
+ */
+export function nonPenaltyGoalsPer90(player: Player): SampledStat {
+  let goals = 0
+  let minutes = 0
+  for (const season of player.seasons) {
+    if (season.penaltyGoals === undefined) continue
+    goals += season.goals - season.penaltyGoals
+    minutes += season.minutes
+  }
+
+  return sampled(per90(goals, minutes), minutes)
+}
+
+/**
+ * Minutes played per goal scored. Null for players who haven't scored.
+ */
+export function minutesPerGoal(player: Player): SampledStat {
+  return sampled(
+    player.goals > 0 ? player.minutes / player.goals : null,
+    player.minutes
+  )
+}
+
+/**
+ * Goals plus assists as a share (0-1) of the goals the player's clubs
+ * scored, over the season lines that record team goals.
+ */
+export function goalContributionShare(player: Player): SampledStat {
+  let contributions = 0
+  let teamGoals = 0
+  let minutes = 0
+  for (const season of player.seasons) {
+    if (season.teamGoals === undefined) continue
+    contributions += season.goals + season.assists
+    teamGoals += season.teamGoals
+    minutes += season.minutes
+  }
+
+  return sampled(teamGoals > 0 ? contributions / teamGoals : null, minutes)
+}
+
+export interface AdvancedStats {
+  goalsPer90: SampledStat
+  assistsPer90: SampledStat
+  goalContributionsPer90: SampledStat
+  nonPenaltyGoalsPer90: SampledStat
+  minutesPerGoal: SampledStat
+  goalContributionShare: SampledStat
+}
+
+/**
+ * Every minutes-based stat for a player. Pages, the REST API and GraphQL all
+ * read from here so they can't disagree.
+ */
+export function getAdvancedStats(player: Player): AdvancedStats {
+  return {
+    goalsPer90: goalsPer90(player),
+    assistsPer90: assistsPer90(player),
+    goalContributionsPer90: goalContributionsPer90(player),
+    nonPenaltyGoalsPer90: nonPenaltyGoalsPer90(player),
+    minutesPerGoal: minutesPerGoal(player),
+    goalContributionShare: goalContributionShare(player),
+  }
+}
+
+export interface AdvancedStatDefinition {
+  key: keyof AdvancedStats
+  label: string
+  format: "rate" | "minutes" | "percent"
+  /** True when a smaller value is better, e.g. minutes per goal. */
+  lowerIsBetter?: boolean
+}
+
+/**
+ * Display order and labels for the advanced stats on the player profile.
+ */
+export const advancedStatDefinitions: AdvancedStatDefinition[] = [
+  { key: "goalsPer90", label: "Goals per 90", format: "rate" },
+  { key: "assistsPer90", label: "Assists per 90", format: "rate" },
+  { key: "goalContributionsPer90", label: "G+A per 90", format: "rate" },
+  {
+    key: "nonPenaltyGoalsPer90",
+    label: "Non-Penalty Goals per 90",
+    format: "rate",
+  },
+  {
+    key: "minutesPerGoal",
+    label: "Minutes per Goal",
+    format: "minutes",
+    lowerIsBetter: true,
+  },
+  {
+    key: "goalContributionShare",
+    label: "Share of Team Goals",
+    format: "percent",
+  },
+]
+
+/**
+ * Display text for an advanced stat: "0.82", "118" (minutes) or "34%", and
+ * an em dash when the value is null.
+ */
+export function formatAdvancedStat(
+  definition: AdvancedStatDefinition,
+  stat: SampledStat
+): string {
+  if (stat.value === null) return "—"
+
+  switch (definition.format) {
+    case "rate":
+      return stat.value.toFixed(2)
+    case "minutes":
+      return Math.round(stat.value).toLocaleString()
+    case "percent":
+      return `${Math.round(stat.value * 100)}%`
+  }
+}
@@ -4,3 +4,24 @@ import { twMerge } from 'tailwind-merge'
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Lowercases and strips accents for matching user input: "Vinícius" →
+ * "vinicius".
+ */
+export function foldText(value: string) {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+}
+
+/**
+ * Turns a display name into a URL slug: "Côte d'Ivoire" → "cote-divoire".
+ */
+export function slugify(value: string) {
+  return foldText(value)
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
@@ -0,0 +1,26 @@
+/**
+ * Player Database Builder
+ *
+ * Builds the SQLite database read when PLAYER_DATA_SOURCE=sqlite from the
+ * bundled dataset:
+ *
+ *   pnpm db:build
+ *
+ * Writes to PLAYER_DB_PATH (default data/players.db), replacing any existing
+ * tables. Records are validated first, so the database never holds data the
+ * static build would reject, and season lines covered by match logs are
+ * replaced just as they are for the bundled dataset.
+ */
+import { readFileSync } from "node:fs"
+import { withMatchLog } from "@/data/matches"
+import { parsePlayerRecords } from "@/data/schema"
+import { writePlayerDatabase } from "@/data/sqlite-repository"
+import { getPlayerDatabasePath } from "@/lib/env"
+
+const records = parsePlayerRecords(
+  JSON.parse(readFileSync("data/players.json", "utf8"))
+).map(withMatchLog)
+const path = getPlayerDatabasePath()
+
+writePlayerDatabase(path, records)
+console.log(`Wrote ${records.length} players to ${path}`)
@@ -0,0 +1,203 @@
+/**
+ * Player Import CLI
+ *
+ * Bulk-loads players from CSV or JSON exports into data/players.json.
+ *
+ *   pnpm import:players <file...> [options]
+ *
+ * Input is one row per season line (player, season, club, competition,
+ * goals, ...), with the player's details repeated on each row. JSON files may
+ * hold the same flat rows or nested player records with a `seasons` array.
+ * Players already in the dataset are updated, keeping season lines the
+ * import doesn't include (see mergePlayerRecords).
+ *
+ * Options:
+ *   --map <column=field>  Map a column the importer doesn't recognise onto a
+ *                         player or season field; repeatable.
+ *   --replace             Replace the whole dataset instead of merging.
+ *   --skip-invalid        Write the valid players even if others have errors.
+ *   --dry-run             Validate and report without writing anything.
+ *   --out <path>          Dataset to merge into (default data/players.json).
+ *
+ * Exits with status 1 if any row is invalid, or with the error's message if
+ * a file or option can't be read.
+ */
+import { readFileSync, writeFileSync } from "node:fs"
+import { basename, extname } from "node:path"
+import { parseArgs } from "node:util"
+import {
+  importFields,
+  importPlayerRows,
+  isImportField,
+  mergePlayerRecords,
+  resolveColumns,
+  serializePlayerRecords,
+  type ImportField,
+  type ImportRow,
+} from "@/data/import"
+import type { PlayerRecord } from "@/data/players"
+import { formatDatasetIssues, playerDatasetSchema } from "@/data/schema"
+import { parseCsv } from "@/lib/csv"
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error)
+
+/**
+ * Reads and parses a file, naming the file in any error the parser throws.
+ */
+function parseFile<T>(path: string, parse: (text: string) => T): T {
+  const text = readFileSync(path, "utf8")
+  try {
+    return parse(text)
+  } catch (error) {
+    throw new Error(`${basename(path)}: ${errorMessage(error)}`)
+  }
+}
+
+function readCsvRows(path: string): ImportRow[] {
+  const [header, ...records] = parseFile(path, parseCsv)
+  if (!header) return []
+
+  return records.map((record) => ({
+    source: `${basename(path)}:${record.line}`,
+    values: Object.fromEntries(
+      header.fields.map((column, index) => [column, record.fields[index] ?? ""])
+    ),
+  }))
+}
+
+function readJsonRows(path: string): ImportRow[] {
+  const data: unknown = parseFile(path, JSON.parse)
+  if (!Array.isArray(data)) {
+    throw new Error(`${basename(path)}: expected a top-level array`)
+  }
+
+  return data.flatMap((item, index): ImportRow[] => {
+    const source = `${basename(path)}[${index}]`
+    if (!item || typeof item !== "object") {
+      return [{ source, values: {} }]
+    }
+
+    // Nested player records are flattened to one row per season line
+    const { seasons, ...player } = item as Record<string, unknown>
+    if (!Array.isArray(seasons)) {
+      return [{ source, values: player }]
+    }
+    return seasons.map((season, seasonIndex) => ({
+      source: `${source}.seasons[${seasonIndex}]`,
+      values: { ...player, ...season },
+    }))
+  })
+}
+
+function readRows(path: string): ImportRow[] {
+  switch (extname(path).toLowerCase()) {
+    case ".csv":
+      return readCsvRows(path)
+    case ".json":
+      return readJsonRows(path)
+    default:
+      throw new Error(`${path}: unsupported file type (use .csv or .json)`)
+  }
+}
+
+function parseColumnMap(entries: string[]): Record<string, ImportField> {
+  return Object.fromEntries(
+    entries.map((entry) => {
+      const separator = entry.lastIndexOf("=")
+      if (separator <= 0) {
+        throw new Error(`--map expects column=field, got "${entry}"`)
+      }
+      const field = entry.slice(separator + 1)
+      if (!isImportField(field)) {
+        throw new Error(
+          `--map: unknown field "${field}" (expected one of ${importFields.join(", ")})`
+        )
+      }
+      return [entry.slice(0, separator), field]
+    })
+  )
+}
+
+function main() {
+  const { values: flags, positionals: files } = parseArgs({
+    allowPositionals: true,
+    options: {
+      map: { type: "string", multiple: true, default: [] },
+      replace: { type: "boolean", default: false },
+      "skip-invalid": { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      out: { type: "string", default: "data/players.json" },
+    },
+  })
+
+  if (files.length === 0) {
+    console.error(
+      "Usage: pnpm import:players <file.csv|file.json...> [options]"
+    )
+    process.exit(1)
+  }
+
+  const columnMap = parseColumnMap(flags.map)
+  const rows = files.flatMap(readRows)
+
+  const headers = [...new Set(rows.flatMap((row) => Object.keys(row.values)))]
+  const { unknown } = resolveColumns(headers, columnMap)
+  if (unknown.length > 0) {
+    console.warn(
+      `Ignoring unrecognised columns: ${unknown.join(", ")} (map them with --map column=field)`
+    )
+  }
+
+  const { records: imported, issues } = importPlayerRows(rows, {
+    columnMap,
+    today: new Date().toISOString().slice(0, 10),
+  })
+
+  for (const issue of issues) {
+    console.error(`${issue.source}: ${issue.message}`)
+  }
+
+  const existing: PlayerRecord[] = flags.replace
+    ? []
+    : parseFile(flags.out, JSON.parse)
+  const { records, added, updated } = mergePlayerRecords(existing, imported)
+
+  // Cross-player checks (e.g. duplicate slugs) on the final dataset
+  const dataset = playerDatasetSchema.safeParse(records)
+  if (!dataset.success) {
+    for (const line of formatDatasetIssues(dataset.error, records)) {
+      console.error(line)
+    }
+    process.exit(1)
+  }
+
+  console.log(
+    `${rows.length} rows → ${imported.length} valid players (${added} new, ${updated} updated), ${issues.length} ${issues.length === 1 ? "problem" : "problems"}`
+  )
+
+  if (issues.length > 0 && !flags["skip-invalid"]) {
+    console.error("Nothing written. Fix the rows above or pass --skip-invalid.")
+    process.exit(1)
+  }
+
+  if (flags["dry-run"]) {
+    console.log("Dry run: nothing written.")
+  } else {
+    writeFileSync(flags.out, serializePlayerRecords(records))
+    console.log(`Wrote ${records.length} players to ${flags.out}`)
+  }
+
+  if (issues.length > 0) {
+    process.exit(1)
+  }
+}
+
+// Bad options and unreadable files end the run like invalid rows do: a
+// message, not a stack trace
+try {
+  main()
+} catch (error) {
+  console.error(errorMessage(error))
+  process.exit(1)
+}